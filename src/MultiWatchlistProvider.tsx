@@ -0,0 +1,324 @@
+import * as React from "react";
+
+import useLocalStorage from "./useLocalStorage";
+import { generateWatchlistState, initialState, reducer } from "./reducer";
+import {
+  Actions,
+  InitialState,
+  Item,
+  Metadata,
+  WatchlistActions,
+  WatchlistStorage,
+} from "./types";
+import { createWatchlistIdentifier } from "./utils";
+import { parseWatchlists } from "./persistence";
+import { WatchlistError } from "./errors";
+
+export interface WatchlistList extends InitialState {
+  name: string;
+}
+
+export interface WatchlistListState extends WatchlistList, WatchlistActions {}
+
+export interface WatchlistListOptions {
+  id?: string;
+  items?: Item[];
+  metadata?: Metadata;
+}
+
+interface MultiWatchlistState {
+  id: string;
+  lists: WatchlistList[];
+}
+
+interface MultiWatchlistProviderState extends MultiWatchlistState {
+  getList: (listId: WatchlistList["id"]) => WatchlistList | undefined;
+  createList: (name: string, options?: WatchlistListOptions) => string;
+  renameList: (listId: WatchlistList["id"], name: string) => void;
+  deleteList: (listId: WatchlistList["id"]) => void;
+  moveItem: (
+    id: Item["id"],
+    fromList: WatchlistList["id"],
+    toList: WatchlistList["id"]
+  ) => void;
+  copyItem: (
+    id: Item["id"],
+    fromList: WatchlistList["id"],
+    toList: WatchlistList["id"]
+  ) => void;
+}
+
+export type ListActions =
+  | { type: "CREATE_LIST"; payload: WatchlistList }
+  | { type: "RENAME_LIST"; listId: WatchlistList["id"]; name: string }
+  | { type: "DELETE_LIST"; listId: WatchlistList["id"] }
+  | {
+      type: "MOVE_ITEM";
+      id: Item["id"];
+      fromList: WatchlistList["id"];
+      toList: WatchlistList["id"];
+    }
+  | {
+      type: "COPY_ITEM";
+      id: Item["id"];
+      fromList: WatchlistList["id"];
+      toList: WatchlistList["id"];
+    }
+  | { type: "LIST_ACTION"; listId: WatchlistList["id"]; action: Actions };
+
+export const MultiWatchlistContext = React.createContext<
+  MultiWatchlistProviderState | undefined
+>(undefined);
+
+export const MultiWatchlistDispatchContext = React.createContext<
+  React.Dispatch<ListActions> | undefined
+>(undefined);
+
+export const useWatchlists = () => {
+  const context = React.useContext(MultiWatchlistContext);
+
+  if (!context)
+    throw new Error("Expected to be wrapped in a MultiWatchlistProvider");
+
+  return context;
+};
+
+const generateList = (
+  name: string,
+  {
+    id = createWatchlistIdentifier(),
+    items = [],
+    metadata = {},
+  }: WatchlistListOptions = {}
+): WatchlistList =>
+  generateWatchlistState(
+    { ...initialState, id, name, metadata },
+    items.map(item => ({
+      ...item,
+      quantity: item.quantity || 1,
+    }))
+  );
+
+const updateList = (
+  lists: WatchlistList[],
+  listId: WatchlistList["id"],
+  update: (list: WatchlistList) => WatchlistList
+) => lists.map(list => (list.id === listId ? update(list) : list));
+
+const addToList = (list: WatchlistList, item: Item) => {
+  const currentItem = list.items.find((i: Item) => i.id === item.id);
+
+  const items = currentItem
+    ? list.items.map((i: Item) =>
+        i.id === item.id ? { ...i, quantity: i.quantity! + item.quantity! } : i
+      )
+    : [...list.items, item];
+
+  return generateWatchlistState(list, items);
+};
+
+function listsReducer(
+  state: MultiWatchlistState,
+  action: ListActions
+): MultiWatchlistState {
+  switch (action.type) {
+    case "CREATE_LIST":
+      return {
+        ...state,
+        lists: [...state.lists, action.payload],
+      };
+
+    case "RENAME_LIST":
+      return {
+        ...state,
+        lists: updateList(state.lists, action.listId, list => ({
+          ...list,
+          name: action.name,
+        })),
+      };
+
+    case "DELETE_LIST":
+      return {
+        ...state,
+        lists: state.lists.filter(list => list.id !== action.listId),
+      };
+
+    case "MOVE_ITEM":
+    case "COPY_ITEM": {
+      const source = state.lists.find(list => list.id === action.fromList);
+      const item = source?.items.find((i: Item) => i.id === action.id);
+
+      if (!item || action.fromList === action.toList) return state;
+
+      const lists = updateList(state.lists, action.toList, list =>
+        addToList(list, item)
+      );
+
+      if (action.type === "COPY_ITEM") return { ...state, lists };
+
+      return {
+        ...state,
+        lists: updateList(lists, action.fromList, list =>
+          generateWatchlistState(
+            list,
+            list.items.filter((i: Item) => i.id !== action.id)
+          )
+        ),
+      };
+    }
+
+    case "LIST_ACTION":
+      return {
+        ...state,
+        lists: updateList(state.lists, action.listId, list => ({
+          ...reducer(list, action.action),
+          id: list.id,
+          name: list.name,
+        })),
+      };
+
+    default:
+      throw new Error("No action specified");
+  }
+}
+
+export const MultiWatchlistProvider: React.FC<{
+  children?: React.ReactNode;
+  id?: string;
+  defaultLists?: ({ name: string } & WatchlistListOptions)[];
+  storage?: WatchlistStorage;
+  onCorruptState?: (error: Error, savedWatchlists: string) => void;
+}> = ({
+  children,
+  id: watchlistsId,
+  defaultLists = [],
+  storage = useLocalStorage,
+  onCorruptState,
+}) => {
+  const id = watchlistsId ? watchlistsId : createWatchlistIdentifier();
+
+  const defaultWatchlists: MultiWatchlistState = {
+    id,
+    lists: defaultLists.map(({ name, ...options }) =>
+      generateList(name, options)
+    ),
+  };
+
+  const [savedWatchlists, saveWatchlists] = storage(
+    watchlistsId ? `react-use-watchlists-${id}` : `react-use-watchlists`,
+    JSON.stringify(defaultWatchlists)
+  );
+
+  const corruptState = React.useRef<{ error: Error; value: string }>();
+
+  // Stored lists that cannot be read are replaced with `defaultLists`.
+  const [state, dispatch] = React.useReducer(
+    listsReducer,
+    savedWatchlists,
+    value => {
+      try {
+        return parseWatchlists(value);
+      } catch (error) {
+        corruptState.current = { error, value };
+
+        return defaultWatchlists;
+      }
+    }
+  );
+
+  React.useEffect(() => {
+    if (!corruptState.current) return;
+
+    const { error, value } = corruptState.current;
+
+    onCorruptState && onCorruptState(error, value);
+    corruptState.current = undefined;
+  });
+
+  React.useEffect(() => {
+    saveWatchlists(JSON.stringify(state));
+  }, [state, saveWatchlists]);
+
+  const getList = (listId: WatchlistList["id"]) =>
+    state.lists.find(list => list.id === listId);
+
+  const assertList = (listId: WatchlistList["id"]) => {
+    const list = getList(listId);
+
+    if (!list) throw new Error(`No such watchlist \`${listId}\``);
+
+    return list;
+  };
+
+  const createList = (name: string, options?: WatchlistListOptions) => {
+    if (options?.id && getList(options.id))
+      throw new Error(
+        `A watchlist with the id \`${options.id}\` already exists`
+      );
+
+    const payload = generateList(name, options);
+
+    dispatch({ type: "CREATE_LIST", payload });
+
+    return payload.id;
+  };
+
+  const renameList = (listId: WatchlistList["id"], name: string) => {
+    assertList(listId);
+
+    dispatch({ type: "RENAME_LIST", listId, name });
+  };
+
+  const deleteList = (listId: WatchlistList["id"]) => {
+    if (!listId) return;
+
+    dispatch({ type: "DELETE_LIST", listId });
+  };
+
+  const transferItem = (
+    type: "MOVE_ITEM" | "COPY_ITEM",
+    id: Item["id"],
+    fromList: WatchlistList["id"],
+    toList: WatchlistList["id"]
+  ) => {
+    const source = assertList(fromList);
+    assertList(toList);
+
+    if (!source.items.some((i: Item) => i.id === id))
+      throw new WatchlistError("ITEM_NOT_FOUND", "No such item to move", {
+        id,
+      });
+
+    dispatch({ type, id, fromList, toList });
+  };
+
+  const moveItem = (
+    id: Item["id"],
+    fromList: WatchlistList["id"],
+    toList: WatchlistList["id"]
+  ) => transferItem("MOVE_ITEM", id, fromList, toList);
+
+  const copyItem = (
+    id: Item["id"],
+    fromList: WatchlistList["id"],
+    toList: WatchlistList["id"]
+  ) => transferItem("COPY_ITEM", id, fromList, toList);
+
+  return (
+    <MultiWatchlistDispatchContext.Provider value={dispatch}>
+      <MultiWatchlistContext.Provider
+        value={{
+          ...state,
+          getList,
+          createList,
+          renameList,
+          deleteList,
+          moveItem,
+          copyItem,
+        }}
+      >
+        {children}
+      </MultiWatchlistContext.Provider>
+    </MultiWatchlistDispatchContext.Provider>
+  );
+};
@@ -0,0 +1,749 @@
+import {
+  Actions,
+  InitialState,
+  Item,
+  Metadata,
+  WatchlistActions,
+  WatchlistCallbacks,
+  WatchlistCheckedAction,
+  WatchlistExportFormat,
+  WatchlistImportOptions,
+  WatchlistImportResult,
+  WatchlistLimitEvent,
+  WatchlistLimits,
+  WatchlistMergeOptions,
+  WatchlistMergeReport,
+  WatchlistMergeSource,
+  WatchlistResult,
+  WatchlistTargetDirection,
+  WatchlistValidation,
+} from "./types";
+import { createBatchEvent } from "./batch";
+import { WatchlistError, findItemError, isValidQuantity } from "./errors";
+import { decodeWatchlist, encodeWatchlist } from "./importExport";
+import { exceedsQuantity, limitItems, selectEvictions } from "./limits";
+import { mergeWatchlists } from "./mergeWatchlists";
+import { reducer } from "./reducer";
+import { hasTag, normalizeTag } from "./tags";
+
+interface BatchDraft {
+  state: InitialState;
+  actions: Actions[];
+  effects: (() => void)[];
+}
+
+// State, callbacks and limits are read when an action runs rather than when
+// it is created, so the returned functions can keep the same identity across
+// renders.
+export const createWatchlistActions = (
+  getCommittedState: () => InitialState,
+  dispatchAction: (action: Actions) => boolean | void,
+  getWatchlistCallbacks: () => WatchlistCallbacks = () => ({}),
+  getLimits: () => WatchlistLimits = () => ({}),
+  getValidation: () => WatchlistValidation = () => ({})
+): WatchlistActions => {
+  // Inside `batch`, actions are applied to a draft and dispatched together
+  // once it finishes. Callbacks wait for that dispatch too.
+  let draft: BatchDraft | undefined;
+
+  // Set while `checkItem` tries an action, so errors always reach it.
+  let checking = false;
+
+  const getState = () => (draft ? draft.state : getCommittedState());
+
+  const dispatch = (action: Actions) => {
+    if (!draft) return dispatchAction(action);
+
+    draft.state = reducer(draft.state, action);
+    draft.actions.push(action);
+
+    return true;
+  };
+
+  // Per-item callbacks are replaced by a single `onBatch` event.
+  const getCallbacks = (): WatchlistCallbacks => {
+    const callbacks = getWatchlistCallbacks();
+
+    if (!draft) return callbacks;
+
+    const { effects } = draft;
+    const { onPriceChange, onLimitReached } = callbacks;
+
+    return {
+      onPriceChange:
+        onPriceChange &&
+        ((...args) => effects.push(() => onPriceChange(...args))),
+      onLimitReached:
+        onLimitReached &&
+        ((...args) => effects.push(() => onLimitReached(...args))),
+    };
+  };
+
+  // Middleware may block an action, in which case its callbacks are skipped.
+  const apply = (action: Actions) => dispatch(action) !== false;
+
+  // Errors are thrown unless there is an `onError` to take them, in which
+  // case the action is skipped.
+  const fail = (error: WatchlistError) => {
+    const { onError } = getValidation();
+
+    if (!onError || checking) throw error;
+
+    onError(error);
+  };
+
+  // Runs the action against a throwaway draft, so nothing is dispatched and
+  // no callbacks fire. The first error is returned rather than thrown.
+  const checkItem = <K extends WatchlistCheckedAction>(
+    name: K,
+    ...args: Parameters<WatchlistActions[K]>
+  ): WatchlistResult => {
+    const previous = { draft, checking };
+
+    draft = { state: getState(), actions: [], effects: [] };
+    checking = true;
+
+    try {
+      (actions[name] as (...args: unknown[]) => unknown)(...args);
+
+      return { ok: true };
+    } catch (error) {
+      if (error instanceof WatchlistError) return { ok: false, error };
+
+      throw error;
+    } finally {
+      draft = previous.draft;
+      checking = previous.checking;
+    }
+  };
+
+  const notifyLimitReached = (event: WatchlistLimitEvent) => {
+    const { onLimitReached } = getCallbacks();
+
+    onLimitReached && onLimitReached(event);
+  };
+
+  const rejectQuantity = (item: Item) =>
+    notifyLimitReached({
+      limit: "maxQuantityPerItem",
+      policy: "reject",
+      rejected: [item],
+      evicted: [],
+    });
+
+  const notifyPriceChange = (
+    currentItem: Item | undefined,
+    payload: Partial<Item>
+  ) => {
+    const { onPriceChange } = getCallbacks();
+
+    if (!onPriceChange || typeof payload.price !== "number") return;
+
+    if (!currentItem || currentItem.price === payload.price) return;
+
+    onPriceChange(
+      { ...currentItem, ...payload },
+      currentItem.price,
+      payload.price
+    );
+  };
+
+  const setItems = (newItems: Item[]) => {
+    const { onSetItems } = getCallbacks();
+    const previousItems = getState().items;
+    const { items, events } = limitItems(newItems, previousItems, getLimits());
+    const payload = items.map(item => ({
+      ...item,
+      quantity: item.quantity || 1,
+    }));
+
+    // One invalid item rejects the whole list.
+    for (const item of payload) {
+      const error = findItemError(item, getValidation());
+
+      if (error) return fail(error);
+    }
+
+    if (!apply({ type: "SET_ITEMS", payload })) return;
+
+    onSetItems && onSetItems(items);
+
+    items.forEach(item =>
+      notifyPriceChange(
+        previousItems.find((i: Item) => i.id === item.id),
+        item
+      )
+    );
+
+    events.forEach(notifyLimitReached);
+  };
+
+  const addItem = (item: Item, quantity = 1) => {
+    if (!isValidQuantity(quantity)) {
+      fail(
+        new WatchlistError(
+          "INVALID_QUANTITY",
+          "`quantity` must be a positive number",
+          item
+        )
+      );
+
+      return false;
+    }
+
+    const { onItemAdd, onItemUpdate, onItemRemove } = getCallbacks();
+    const limits = getLimits();
+    const { maxItems, limitPolicy = "reject" } = limits;
+    const { items } = getState();
+
+    const currentItem = items.find((i: Item) => i.id === item.id);
+    const error = findItemError(
+      {
+        ...currentItem,
+        ...item,
+        quantity: currentItem
+          ? (currentItem.quantity || 1) + quantity
+          : quantity,
+      },
+      getValidation()
+    );
+
+    if (error) {
+      fail(error);
+
+      return false;
+    }
+
+    if (!currentItem) {
+      const payload = { ...item, quantity };
+
+      if (exceedsQuantity(quantity, limits)) {
+        rejectQuantity(payload);
+
+        return false;
+      }
+
+      let evicted: Item[] = [];
+
+      if (maxItems !== undefined && items.length >= maxItems) {
+        if (limitPolicy === "reject" || maxItems < 1) {
+          notifyLimitReached({
+            limit: "maxItems",
+            policy: limitPolicy,
+            rejected: [payload],
+            evicted: [],
+          });
+
+          return false;
+        }
+
+        evicted = selectEvictions(
+          items,
+          items.length - maxItems + 1,
+          limitPolicy
+        );
+      }
+
+      // Evictions go out with the add as one action, so the list is never
+      // over the limit, even after an undo or when middleware steps in.
+      const addition: Actions = { type: "ADD_ITEM", payload };
+      const removals = evicted.map(
+        ({ id }): Actions => ({ type: "REMOVE_ITEM", id })
+      );
+
+      if (
+        !apply(
+          removals.length
+            ? { type: "BATCH", actions: [...removals, addition] }
+            : addition
+        )
+      )
+        return false;
+
+      onItemAdd && onItemAdd(payload);
+
+      evicted.forEach(({ id }) => onItemRemove && onItemRemove(id));
+
+      if (evicted.length)
+        notifyLimitReached({
+          limit: "maxItems",
+          policy: limitPolicy,
+          rejected: [],
+          evicted,
+        });
+
+      return true;
+    }
+
+    const payload = {
+      ...item,
+      quantity: (currentItem.quantity || 1) + quantity,
+    };
+
+    if (exceedsQuantity(payload.quantity, limits)) {
+      rejectQuantity(payload);
+
+      return false;
+    }
+
+    if (!apply({ type: "UPDATE_ITEM", id: item.id, payload })) return false;
+
+    onItemUpdate && onItemUpdate(payload);
+
+    notifyPriceChange(currentItem, payload);
+
+    return true;
+  };
+
+  const updateItem = (id: Item["id"], payload: Partial<Item>) => {
+    if (!id || !payload) {
+      return;
+    }
+
+    const { onItemUpdate } = getCallbacks();
+    const currentItem = getItem(id);
+
+    if (!currentItem)
+      return fail(
+        new WatchlistError("ITEM_NOT_FOUND", "No such item to update", { id })
+      );
+
+    const error = findItemError(
+      { ...currentItem, ...payload, id },
+      getValidation()
+    );
+
+    if (error) return fail(error);
+
+    if (
+      typeof payload.quantity === "number" &&
+      exceedsQuantity(payload.quantity, getLimits())
+    ) {
+      rejectQuantity({ ...currentItem, ...payload });
+
+      return;
+    }
+
+    if (!apply({ type: "UPDATE_ITEM", id, payload })) return;
+
+    onItemUpdate && onItemUpdate(payload);
+
+    notifyPriceChange(currentItem, payload);
+  };
+
+  const updateItemQuantity = (id: Item["id"], quantity: number) => {
+    const { onItemUpdate, onItemRemove } = getCallbacks();
+
+    if (typeof quantity !== "number" || isNaN(quantity))
+      return fail(
+        new WatchlistError(
+          "INVALID_QUANTITY",
+          "`quantity` must be a positive number",
+          { id }
+        )
+      );
+
+    if (quantity <= 0) {
+      if (apply({ type: "REMOVE_ITEM", id })) onItemRemove && onItemRemove(id);
+
+      return;
+    }
+
+    const currentItem = getState().items.find((item: Item) => item.id === id);
+
+    if (!currentItem)
+      return fail(
+        new WatchlistError("ITEM_NOT_FOUND", "No such item to update", { id })
+      );
+
+    const payload = { ...currentItem, quantity };
+    const error = findItemError(payload, getValidation());
+
+    if (error) return fail(error);
+
+    if (exceedsQuantity(quantity, getLimits())) {
+      rejectQuantity(payload);
+
+      return;
+    }
+
+    if (!apply({ type: "UPDATE_ITEM", id, payload })) return;
+
+    onItemUpdate && onItemUpdate(payload);
+  };
+
+  const moveItem = (id: Item["id"], toIndex: number) => {
+    if (!id) return;
+
+    dispatch({ type: "MOVE_ITEM", id, toIndex });
+  };
+
+  const pinItem = (id: Item["id"]) => {
+    if (!id) return;
+
+    dispatch({ type: "PIN_ITEM", id });
+  };
+
+  const unpinItem = (id: Item["id"]) => {
+    if (!id) return;
+
+    dispatch({ type: "UNPIN_ITEM", id });
+  };
+
+  const setItemPriority = (id: Item["id"], priority: number) => {
+    if (!id) return;
+
+    dispatch({ type: "SET_ITEM_PRIORITY", id, priority });
+  };
+
+  const addTag = (id: Item["id"], tag: string) => {
+    const name = normalizeTag(tag);
+
+    if (!id || !name) return;
+
+    dispatch({ type: "ADD_TAG", id, tag: name });
+  };
+
+  const removeTag = (id: Item["id"], tag: string) => {
+    const name = normalizeTag(tag);
+
+    if (!id || !name) return;
+
+    dispatch({ type: "REMOVE_TAG", id, tag: name });
+  };
+
+  const renameTag = (from: string, to: string) => {
+    const [fromName, toName] = [normalizeTag(from), normalizeTag(to)];
+
+    if (!fromName || !toName || fromName === toName) return;
+
+    dispatch({ type: "RENAME_TAG", from: fromName, to: toName });
+  };
+
+  const getItemsByTag = (tag: string) =>
+    getState().items.filter((item: Item) => hasTag(item, normalizeTag(tag)));
+
+  // One action for the whole set, with `onItemRemove` called per item.
+  const removeItemsByTag = (tag: string) => {
+    const name = normalizeTag(tag);
+    const removed = getItemsByTag(name);
+
+    if (!removed.length) return;
+
+    const { onItemRemove } = getCallbacks();
+
+    if (!apply({ type: "REMOVE_ITEMS_BY_TAG", tag: name })) return;
+
+    removed.forEach(item => onItemRemove && onItemRemove(item.id));
+  };
+
+  const batch = (changes: () => void) => {
+    if (draft) return changes();
+
+    const previousItems = getCommittedState().items;
+    const current: BatchDraft = {
+      state: getCommittedState(),
+      actions: [],
+      effects: [],
+    };
+
+    draft = current;
+
+    try {
+      changes();
+    } finally {
+      draft = undefined;
+    }
+
+    if (!current.actions.length) return;
+    if (!apply({ type: "BATCH", actions: current.actions })) return;
+
+    const { onBatch, onItemAdd, onItemUpdate, onItemRemove } = getCallbacks();
+    const event = createBatchEvent(
+      previousItems,
+      getCommittedState().items,
+      current.actions
+    );
+
+    if (onBatch) {
+      onBatch(event);
+    } else {
+      event.added.forEach(item => onItemAdd && onItemAdd(item));
+      event.updated.forEach(item => onItemUpdate && onItemUpdate(item));
+      event.removed.forEach(item => onItemRemove && onItemRemove(item.id));
+    }
+
+    current.effects.forEach(effect => effect());
+  };
+
+  const addItems = (items: Item[]) =>
+    batch(() =>
+      items.forEach(({ quantity = 1, ...item }) =>
+        addItem(item as Item, quantity)
+      )
+    );
+
+  const removeItems = (ids: Item["id"][]) =>
+    batch(() => ids.forEach(removeItem));
+
+  const updateItems = (
+    target: Item["id"][] | ((item: Item) => boolean),
+    payload: Partial<Item>
+  ) => {
+    const matches =
+      typeof target === "function"
+        ? target
+        : (item: Item) => target.includes(item.id);
+
+    batch(() =>
+      getState()
+        .items.filter(matches)
+        .forEach((item: Item) => updateItem(item.id, payload))
+    );
+  };
+
+  const setTargetPrice = (
+    id: Item["id"],
+    price: number,
+    { direction = "below" }: { direction?: WatchlistTargetDirection } = {}
+  ) => {
+    if (!id) return;
+    if (typeof price !== "number" || !isFinite(price))
+      return fail(
+        new WatchlistError(
+          "INVALID_TARGET_PRICE",
+          "You must provide a numeric target price",
+          { id }
+        )
+      );
+
+    dispatch({
+      type: "SET_TARGET_PRICE",
+      id,
+      targetPrice: { price, direction },
+    });
+  };
+
+  const clearTargetPrice = (id: Item["id"]) => {
+    if (!id) return;
+
+    dispatch({ type: "SET_TARGET_PRICE", id });
+  };
+
+  const acknowledgeAlert = (id: Item["id"]) => {
+    if (!id) return;
+
+    dispatch({ type: "ACKNOWLEDGE_ALERT", id });
+  };
+
+  // Stored as an absolute time, so a replayed action snoozes until the same
+  // moment.
+  const snoozeAlert = (id: Item["id"], duration: number) => {
+    if (!id) return;
+
+    dispatch({ type: "SNOOZE_ALERT", id, until: Date.now() + duration });
+  };
+
+  const removeItem = (id: Item["id"]) => {
+    if (!id) return;
+
+    const { onItemRemove } = getCallbacks();
+
+    if (!apply({ type: "REMOVE_ITEM", id })) return;
+
+    onItemRemove && onItemRemove(id);
+  };
+
+  const emptyWatchlist = () => {
+    dispatch({
+      type: "EMPTY_WATCHLIST",
+    });
+  };
+
+  const getItem = (id: Item["id"]) =>
+    getState().items.find((i: Item) => i.id === id);
+
+  const inWatchlist = (id: Item["id"]) =>
+    getState().items.some((i: Item) => i.id === id);
+
+  const clearWatchlistMetadata = () => {
+    dispatch({
+      type: "CLEAR_WATCHLIST_META",
+    });
+  };
+
+  const setWatchlistMetadata = (metadata: Metadata) => {
+    if (!metadata) return;
+
+    dispatch({
+      type: "SET_WATCHLIST_META",
+      payload: metadata,
+    });
+  };
+
+  const updateWatchlistMetadata = (metadata: Metadata) => {
+    if (!metadata) return;
+
+    dispatch({
+      type: "UPDATE_WATCHLIST_META",
+      payload: metadata,
+    });
+  };
+
+  const exportWatchlist = (format?: WatchlistExportFormat) =>
+    encodeWatchlist(getState(), format);
+
+  // Imports go through `setItems` and `addItems`, so the usual callbacks fire.
+  const importWatchlist = (
+    data: string,
+    { strategy = "replace", format }: WatchlistImportOptions = {}
+  ): WatchlistImportResult => {
+    const decoded = decodeWatchlist(data, format);
+    const { metadata } = decoded;
+    const rejected = [...decoded.rejected];
+    const indexes: number[] = [];
+
+    // Checked as each strategy will apply the row, so rows the validator
+    // refuses are reported and the rest still import.
+    const getImportedItem = (item: Item): Item => {
+      const current = strategy === "replace" ? undefined : getItem(item.id);
+      const merged = { ...current, ...item };
+
+      return {
+        ...merged,
+        quantity:
+          strategy === "append" && current
+            ? (current.quantity || 1) + (item.quantity || 1)
+            : merged.quantity || 1,
+      };
+    };
+
+    const items = decoded.items.filter((item, i) => {
+      const error = findItemError(getImportedItem(item), getValidation());
+
+      if (error)
+        rejected.push({
+          index: decoded.indexes[i],
+          row: item,
+          reason: error.message,
+        });
+      else indexes.push(decoded.indexes[i]);
+
+      return !error;
+    });
+    const before = getState();
+
+    if (strategy === "append") {
+      addItems(items);
+    } else if (strategy === "merge") {
+      const imported = new Map(items.map(item => [item.id, item]));
+
+      setItems([
+        ...getState().items.map(item => {
+          const update = imported.get(item.id);
+
+          imported.delete(item.id);
+
+          return update ? { ...item, ...update } : item;
+        }),
+        ...Array.from(imported.values()),
+      ]);
+    } else {
+      setItems(items);
+    }
+
+    const after = getState();
+
+    if (metadata && strategy === "replace") setWatchlistMetadata(metadata);
+    else if (metadata) updateWatchlistMetadata(metadata);
+
+    // Limits, validation and middleware can still drop rows that decoded
+    // fine, so the report is based on what ended up in the list.
+    const previousItems = new Map(before.items.map(item => [item.id, item]));
+    const currentItems = new Map(after.items.map(item => [item.id, item]));
+
+    const isApplied = (item: Item) => {
+      const current = currentItems.get(item.id);
+      const previous = previousItems.get(item.id);
+
+      if (after === before || !current) return false;
+
+      return (
+        strategy !== "append" ||
+        !previous ||
+        previous.quantity !== current.quantity
+      );
+    };
+
+    const dropped = items
+      .map((item, i) => ({
+        index: indexes[i],
+        row: item,
+        reason: "Not accepted by the watchlist",
+      }))
+      .filter(({ row }) => !isApplied(row));
+
+    return {
+      imported: items.length - dropped.length,
+      rejected: [...rejected, ...dropped].sort((a, b) => a.index - b.index),
+    };
+  };
+
+  // Applied as one batch, so a merge is undone in a single step.
+  const mergeWatchlist = (
+    source: WatchlistMergeSource,
+    options?: WatchlistMergeOptions
+  ): WatchlistMergeReport => {
+    const {
+      items,
+      metadata,
+      added,
+      updated,
+      changedMetadata,
+    } = mergeWatchlists(source, getState(), options);
+
+    batch(() => {
+      if (added.length || updated.length) setItems(items);
+      if (changedMetadata.length) setWatchlistMetadata(metadata!);
+    });
+
+    return { added, updated, changedMetadata };
+  };
+
+  const actions: WatchlistActions = {
+    getItem,
+    inWatchlist,
+    checkItem,
+    setItems,
+    addItem,
+    updateItem,
+    updateItemQuantity,
+    moveItem,
+    pinItem,
+    unpinItem,
+    setItemPriority,
+    addTag,
+    removeTag,
+    renameTag,
+    getItemsByTag,
+    removeItemsByTag,
+    addItems,
+    removeItems,
+    updateItems,
+    batch,
+    setTargetPrice,
+    clearTargetPrice,
+    acknowledgeAlert,
+    snoozeAlert,
+    removeItem,
+    emptyWatchlist,
+    clearWatchlistMetadata,
+    setWatchlistMetadata,
+    updateWatchlistMetadata,
+    exportWatchlist,
+    importWatchlist,
+    mergeWatchlist,
+  };
+
+  return actions;
+};
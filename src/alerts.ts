@@ -0,0 +1,31 @@
+import { Item } from "./types";
+
+// Targets may come from storage or an import, so anything malformed never
+// triggers.
+export const meetsTarget = ({ price, targetPrice }: Item) =>
+  !!targetPrice &&
+  typeof targetPrice.price === "number" &&
+  typeof price === "number" &&
+  (targetPrice.direction === "above"
+    ? price >= targetPrice.price
+    : price <= targetPrice.price);
+
+export const isSnoozed = ({ targetPrice }: Item, now: number) =>
+  !!targetPrice &&
+  targetPrice.snoozedUntil !== undefined &&
+  targetPrice.snoozedUntil > now;
+
+export const isAlerting = (item: Item, now: number) =>
+  meetsTarget(item) && !item.targetPrice!.acknowledged && !isSnoozed(item, now);
+
+export const getAlerts = (items: Item[], now: number) =>
+  items.filter(item => isAlerting(item, now));
+
+// An acknowledged alert fires again once the price has moved back past the
+// target and crosses it anew.
+export const rearmTargets = (items: Item[]) =>
+  items.map(item =>
+    item.targetPrice?.acknowledged && !meetsTarget(item)
+      ? { ...item, targetPrice: { ...item.targetPrice, acknowledged: false } }
+      : item
+  );
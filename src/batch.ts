@@ -0,0 +1,32 @@
+import { Actions, Item, WatchlistBatchEvent } from "./types";
+
+// Items are rebuilt on every reducer pass, so changed items are found
+// through the actions that touched them rather than by identity. `SET_ITEMS`
+// and `RENAME_TAG` may touch any item, which `undefined` stands for.
+const getTouchedIds = (actions: Actions[]) =>
+  actions.reduce<Set<Item["id"]> | undefined>((ids, action) => {
+    if (!ids || action.type === "SET_ITEMS" || action.type === "RENAME_TAG")
+      return undefined;
+    if (action.type === "ADD_ITEM") return ids.add(action.payload.id);
+    if ("id" in action) return ids.add(action.id);
+
+    return ids;
+  }, new Set());
+
+export const createBatchEvent = (
+  previousItems: Item[],
+  items: Item[],
+  actions: Actions[]
+): WatchlistBatchEvent => {
+  const previous = new Set(previousItems.map(item => item.id));
+  const current = new Set(items.map(item => item.id));
+  const touched = getTouchedIds(actions);
+
+  return {
+    added: items.filter(item => !previous.has(item.id)),
+    updated: items.filter(
+      item => previous.has(item.id) && (!touched || touched.has(item.id))
+    ),
+    removed: previousItems.filter(item => !current.has(item.id)),
+  };
+};
@@ -0,0 +1,88 @@
+import {
+  InitialState,
+  Item,
+  WatchlistChangeEvent,
+  WatchlistMiddlewareAction,
+} from "./types";
+
+// Items are rebuilt on every reducer pass, so they are compared by value.
+// Fields the reducer derives are left out, as they change whenever the item
+// is first normalized.
+const derivedFields = [
+  "addedAt",
+  "updatedAt",
+  "priceHistory",
+  "priceAtAdd",
+  "lowestPrice",
+  "priceDelta",
+  "itemTotal",
+];
+
+const isSame = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const ownFields = (item: Item) =>
+  Object.keys(item)
+    .filter(key => !derivedFields.includes(key) && item[key] !== undefined)
+    .sort()
+    .map(key => [key, item[key]]);
+
+const isSameItem = (a: Item, b: Item) => isSame(ownFields(a), ownFields(b));
+
+// Items that were added or removed do not count towards a reorder, only a
+// change in the order of the items kept.
+const isReordered = (previousItems: Item[], items: Item[]) => {
+  const previousIds = previousItems.map((item: Item) => item.id);
+  const ids = items.map((item: Item) => item.id);
+  const kept = (list: Item["id"][], other: Item["id"][]) =>
+    list.filter(id => other.includes(id));
+
+  return !isSame(kept(previousIds, ids), kept(ids, previousIds));
+};
+
+// Emptying the list is reported as one event rather than one per removed
+// item.
+export const getChangeEvents = (
+  previous: InitialState,
+  state: InitialState,
+  action?: WatchlistMiddlewareAction
+) => {
+  const events: WatchlistChangeEvent[] = [];
+
+  if (action && action.type === "EMPTY_WATCHLIST") {
+    if (previous.items.length)
+      events.push({ type: "watchlist:emptied", items: previous.items, state });
+  } else {
+    const previousItems = new Map(
+      previous.items.map((item: Item) => [item.id, item])
+    );
+    const ids = new Set(state.items.map((item: Item) => item.id));
+
+    state.items.forEach((item: Item) => {
+      const prev = previousItems.get(item.id);
+
+      if (!prev) events.push({ type: "item:added", item, state });
+      else if (!isSameItem(prev, item))
+        events.push({ type: "item:updated", prev, next: item, state });
+    });
+
+    previous.items
+      .filter((item: Item) => !ids.has(item.id))
+      .forEach((item: Item) =>
+        events.push({ type: "item:removed", item, state })
+      );
+
+    if (isReordered(previous.items, state.items))
+      events.push({ type: "items:reordered", items: state.items, state });
+  }
+
+  if (!isSame(previous.metadata ?? {}, state.metadata ?? {}))
+    events.push({
+      type: "metadata:changed",
+      prev: previous.metadata,
+      next: state.metadata,
+      state,
+    });
+
+  return events;
+};
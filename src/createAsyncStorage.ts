@@ -0,0 +1,47 @@
+import * as React from "react";
+
+import { WatchlistStorage, WatchlistStorageAdapter } from "./types";
+
+export const createAsyncStorage = (
+  adapter: WatchlistStorageAdapter
+): WatchlistStorage =>
+  function useAsyncStorage(key: string, initialValue: string) {
+    const [storedValue, setStoredValue] = React.useState(initialValue);
+    const [isHydrated, setIsHydrated] = React.useState(false);
+
+    React.useEffect(() => {
+      let cancelled = false;
+
+      setIsHydrated(false);
+
+      adapter
+        .getItem(key)
+        .then(item => {
+          if (cancelled) return;
+
+          if (item) setStoredValue(item);
+
+          setIsHydrated(true);
+        })
+        .catch(error => {
+          console.log(error);
+
+          if (!cancelled) setIsHydrated(true);
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [key]);
+
+    const setValue = (value: Function | string) => {
+      const valueToStore =
+        value instanceof Function ? value(storedValue) : value;
+
+      setStoredValue(valueToStore);
+
+      adapter.setItem(key, valueToStore).catch(error => console.log(error));
+    };
+
+    return [storedValue, setValue, isHydrated];
+  };
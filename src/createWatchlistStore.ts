@@ -0,0 +1,499 @@
+import { createWatchlistActions } from "./actions";
+import {
+  HistoryActions,
+  HistoryState,
+  createHistory,
+  withHistory,
+} from "./history";
+import { Migrations, parseWatchlist, serializeWatchlist } from "./persistence";
+import { initialState, reducer } from "./reducer";
+import { getAlerts } from "./alerts";
+import { getChangeEvents } from "./changes";
+import { MAX_TIMEOUT, getExpiry, isExpired } from "./expiry";
+import { WatchlistDevtoolsOptions, connectDevtools } from "./devtools";
+import {
+  Actions,
+  InitialState,
+  Item,
+  ItemBase,
+  Metadata,
+  WatchlistActions,
+  WatchlistActivityEntry,
+  WatchlistCallbacks,
+  WatchlistChangeEvent,
+  WatchlistLimits,
+  WatchlistMiddleware,
+  WatchlistMiddlewareAction,
+  WatchlistMiddlewareAPI,
+  WatchlistStorageAdapter,
+  WatchlistValidation,
+} from "./types";
+import { OutboxEntry } from "./useRemoteSync";
+import { createWatchlistIdentifier } from "./utils";
+
+export interface WatchlistStoreOptions<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+>
+  extends WatchlistCallbacks<TItem>,
+    WatchlistLimits,
+    WatchlistValidation<TItem> {
+  id?: string;
+  defaultItems?: TItem[];
+  metadata?: TMetadata;
+  // Milliseconds after being added that items expire, unless they have their
+  // own `expiresAt`.
+  ttl?: number;
+  // A serialized watchlist to start from, such as a server-rendered snapshot.
+  initialState?: string;
+  storage?: WatchlistStorageAdapter;
+  // Set to `false` when the caller loads the stored watchlist itself and
+  // passes it to `hydrate`. Defaults to `true` unless `storage` is given.
+  hydrated?: boolean;
+  version?: number;
+  migrations?: Migrations;
+  onCorruptState?: (error: Error, savedWatchlist: string) => void;
+  historyDepth?: number;
+  persistHistory?: boolean;
+  activityLimit?: number;
+  persistActivity?: boolean;
+  middleware?: WatchlistMiddleware[];
+  // Reports actions to the Redux DevTools extension. Read once, when the
+  // store is created.
+  devtools?: boolean | WatchlistDevtoolsOptions;
+}
+
+export interface WatchlistStore<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+> extends WatchlistActions<TItem, TMetadata> {
+  getState: () => InitialState<TItem, TMetadata>;
+  getHistory: () => HistoryState;
+  getActivity: () => WatchlistActivityEntry[];
+  isHydrated: () => boolean;
+  subscribe: (listener: () => void) => () => void;
+  subscribeToChanges: (
+    listener: (event: WatchlistChangeEvent<TItem, TMetadata>) => void
+  ) => () => void;
+  dispatch: (action: Actions) => boolean;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+  clearActivity: () => void;
+  hydrate: (savedWatchlist: string) => OutboxEntry[];
+  replace: (state: InitialState, actions?: Actions[]) => void;
+  serialize: (extras?: { outbox?: OutboxEntry[] }) => string;
+  setOptions: (
+    options: Partial<WatchlistStoreOptions<TItem, TMetadata>>
+  ) => void;
+  destroy: () => void;
+}
+
+interface PendingCall {
+  name: keyof WatchlistActions;
+  args: unknown[];
+}
+
+const call = (
+  actions: WatchlistActions,
+  name: keyof WatchlistActions,
+  args: unknown[]
+) => (actions[name] as (...args: unknown[]) => unknown)(...args);
+
+// Holds the watchlist outside of any UI framework, so the same logic runs in
+// a service worker, a Node script or behind `WatchlistProvider`.
+export const createWatchlistStore = <
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+>(
+  storeOptions: WatchlistStoreOptions<TItem, TMetadata> = {}
+): WatchlistStore<TItem, TMetadata> => {
+  let options = (storeOptions as unknown) as WatchlistStoreOptions;
+
+  const { id: watchlistId, storage } = options;
+  const getVersion = () => options.version ?? 1;
+
+  // A snapshot that cannot be read is reported like corrupt storage, and the
+  // store starts from `defaultItems` instead.
+  const readServerWatchlist = (serverState: string) => {
+    try {
+      return parseWatchlist(serverState, getVersion(), options.migrations)
+        .state;
+    } catch (error) {
+      options.onCorruptState && options.onCorruptState(error, serverState);
+
+      return undefined;
+    }
+  };
+
+  const serverWatchlist =
+    options.initialState === undefined
+      ? undefined
+      : readServerWatchlist(options.initialState);
+
+  const id = watchlistId || serverWatchlist?.id || createWatchlistIdentifier();
+  const key = watchlistId ? `react-use-watchlist-${id}` : `react-use-watchlist`;
+
+  const defaultWatchlist: InitialState = serverWatchlist
+    ? { ...initialState, ...serverWatchlist, id }
+    : {
+        id,
+        ...initialState,
+        items: options.defaultItems || [],
+        metadata: options.metadata,
+      };
+
+  let history = createHistory(defaultWatchlist);
+  let activity: WatchlistActivityEntry[] = [];
+  let hydrated = options.hydrated ?? !storage;
+  let pendingCalls: PendingCall[] = [];
+  let replaying = false;
+  let depth = 0;
+  let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const listeners = new Set<() => void>();
+  const changeListeners = new Set<(event: WatchlistChangeEvent) => void>();
+
+  const apply = (action: HistoryActions) => {
+    history = withHistory(reducer, options.historyDepth ?? 20)(history, action);
+  };
+
+  // Time travel from the devtools skips alerts and isn't reported back.
+  const devtools = options.devtools
+    ? connectDevtools(
+        (typeof options.devtools === "object" && options.devtools.name) || key,
+        () => history.present,
+        state => {
+          apply({ type: "HYDRATE_WATCHLIST", payload: state });
+          commit();
+        }
+      )
+    : undefined;
+
+  const log = (action: WatchlistActivityEntry["action"]) => {
+    const { activityLimit = 50 } = options;
+
+    if (activityLimit <= 0) return;
+
+    activity = [...activity, { action, at: Date.now() }].slice(-activityLimit);
+  };
+
+  const serialize = ({ outbox }: { outbox?: OutboxEntry[] } = {}) =>
+    serializeWatchlist(history.present, getVersion(), {
+      history: options.persistHistory ? history : undefined,
+      outbox,
+      activity: options.persistActivity ? activity : undefined,
+    });
+
+  // Only items that start alerting are reported, so an alert fires once per
+  // crossing rather than on every change.
+  const notifyAlerts = (previousItems: Item[]) => {
+    const { onAlert } = options;
+
+    if (!onAlert) return;
+
+    const now = Date.now();
+    const alerting = new Set(
+      getAlerts(previousItems, now).map(item => item.id)
+    );
+
+    getAlerts(history.present.items, now)
+      .filter(item => !alerting.has(item.id))
+      .forEach(item => onAlert(item));
+  };
+
+  // Loading the stored watchlist is not a change, so hydration emits nothing.
+  const notifyChanges = (
+    previous: InitialState,
+    action?: WatchlistMiddlewareAction
+  ) => {
+    const { onChange } = options;
+
+    // Diffing the state costs a pass over both item lists, so skip it when
+    // nobody is listening.
+    if (!onChange && changeListeners.size === 0) return;
+
+    getChangeEvents(previous, history.present, action).forEach(event => {
+      onChange && onChange(event);
+      changeListeners.forEach(listener => listener(event));
+    });
+  };
+
+  const commit = () => {
+    if (hydrated && storage)
+      storage.setItem(key, serialize()).catch(error => console.log(error));
+
+    scheduleExpiry();
+
+    listeners.forEach(listener => listener());
+  };
+
+  // Expiry bypasses the middleware and history: the items are dropped from
+  // every snapshot, so undo cannot bring back an item that has expired.
+  const expireItems = () => {
+    const { ttl, onItemExpire } = options;
+    const previous = history.present;
+    const now = Date.now();
+    const expired = previous.items.filter((item: Item) =>
+      isExpired(item, now, ttl)
+    );
+
+    if (!expired.length) return scheduleExpiry();
+
+    apply({ type: "PURGE_ITEMS", ids: expired.map((item: Item) => item.id) });
+    commit();
+    notifyChanges(previous);
+    expired.forEach((item: Item) => onItemExpire && onItemExpire(item));
+  };
+
+  // Sleeps until the next item is due. Nothing expires before the stored
+  // watchlist has loaded, as hydration purges whatever expired meanwhile.
+  const scheduleExpiry = () => {
+    if (expiryTimer !== undefined) clearTimeout(expiryTimer);
+
+    expiryTimer = undefined;
+
+    if (!hydrated) return;
+
+    const next = Math.min(
+      ...history.present.items.map(
+        (item: Item) => getExpiry(item, options.ttl) ?? Infinity
+      )
+    );
+
+    if (next === Infinity) return;
+
+    expiryTimer = setTimeout(
+      expireItems,
+      Math.max(0, Math.min(next - Date.now(), MAX_TIMEOUT))
+    );
+
+    // In Node, a pending expiry should not keep a script from exiting.
+    const { unref } = expiryTimer as { unref?: () => void };
+
+    unref && unref.call(expiryTimer);
+  };
+
+  const dispatch = (action: WatchlistMiddlewareAction) => {
+    let applied = false;
+
+    const api: WatchlistMiddlewareAPI = {
+      getState: () => history.present,
+      dispatch: action => {
+        dispatch(action);
+      },
+    };
+
+    // The chain is built per action, so `setOptions` can swap middleware.
+    const chain = (options.middleware || []).reduceRight<
+      (action: WatchlistMiddlewareAction) => void
+    >(
+      (next, middleware) => middleware(api)(next),
+      action => {
+        const previous = history.present;
+
+        applied = true;
+
+        log(action);
+        apply(action);
+        devtools && devtools.send(action, history.present);
+        commit();
+        notifyAlerts(previous.items);
+        notifyChanges(previous, action);
+      }
+    );
+
+    chain(action);
+
+    return applied;
+  };
+
+  const load = (savedWatchlist: string) => {
+    try {
+      const { state, history: saved, outbox, activity: log } = parseWatchlist(
+        savedWatchlist,
+        getVersion(),
+        options.migrations
+      );
+
+      return {
+        history: createHistory(
+          state,
+          options.persistHistory ? saved : undefined
+        ),
+        outbox: outbox || [],
+        activity: (options.persistActivity && log) || [],
+      };
+    } catch (error) {
+      options.onCorruptState && options.onCorruptState(error, savedWatchlist);
+
+      return {
+        history: createHistory(defaultWatchlist),
+        outbox: [],
+        activity: [],
+      };
+    }
+  };
+
+  const finishHydration = () => {
+    hydrated = true;
+    replaying = true;
+
+    try {
+      pendingCalls.forEach(({ name, args }) => call(replayActions, name, args));
+    } finally {
+      replaying = false;
+      pendingCalls = [];
+    }
+
+    commit();
+    expireItems();
+  };
+
+  // Returns the outbox that was stored with the watchlist, for callers that
+  // sync with a remote.
+  const hydrate = (savedWatchlist: string) => {
+    const loaded = load(savedWatchlist);
+
+    history = loaded.history;
+
+    if (options.persistActivity)
+      activity = hydrated
+        ? loaded.activity
+        : [...loaded.activity, ...activity].slice(
+            -(options.activityLimit ?? 50)
+          );
+
+    finishHydration();
+
+    return loaded.outbox;
+  };
+
+  // Skips the middleware and the activity log, as the state came from
+  // elsewhere. `actions` are re-applied on top of it.
+  const replace = (state: InitialState, actions: Actions[] = []) => {
+    const previous = history.present;
+
+    apply({ type: "HYDRATE_WATCHLIST", payload: state });
+    actions.forEach(apply);
+    commit();
+    notifyAlerts(previous.items);
+    notifyChanges(previous);
+  };
+
+  if (storage)
+    storage
+      .getItem(key)
+      .then(savedWatchlist =>
+        savedWatchlist ? hydrate(savedWatchlist) : finishHydration()
+      )
+      .catch(error => {
+        console.log(error);
+
+        finishHydration();
+      });
+
+  const actions = createWatchlistActions(
+    () => history.present,
+    dispatch,
+    () => options,
+    () => options,
+    () => options
+  );
+
+  // Replays skip the callbacks, middleware and error reporting, which the
+  // first run already went through.
+  const replayActions = createWatchlistActions(
+    () => history.present,
+    action => apply(action),
+    () => ({}),
+    () => options,
+    () => ({ validateItem: options.validateItem, onError: () => {} })
+  );
+
+  // Calls made before the storage has loaded are applied straight away, then
+  // run again on top of the loaded state once it arrives. Calls rather than
+  // their actions are queued, as the actions were worked out against the
+  // state that hydration replaces.
+  const queueWhileLoading = (name: keyof WatchlistActions) => (
+    ...args: unknown[]
+  ) => {
+    if (replaying) return call(replayActions, name, args);
+
+    const previous = history;
+
+    depth++;
+
+    try {
+      return call(actions, name, args);
+    } finally {
+      depth--;
+
+      // Calls from inside `batch` are replayed with the batch itself.
+      if (!hydrated && !depth && history !== previous)
+        pendingCalls.push({ name, args });
+    }
+  };
+
+  const names = Object.keys(actions) as (keyof WatchlistActions)[];
+  const queuedActions = names.reduce(
+    (queued, name) => ({ ...queued, [name]: queueWhileLoading(name) }),
+    {} as WatchlistActions
+  );
+
+  const store: WatchlistStore = {
+    ...queuedActions,
+    getState: () => history.present,
+    getHistory: () => history,
+    getActivity: () => activity,
+    isHydrated: () => hydrated,
+    subscribe: listener => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    subscribeToChanges: listener => {
+      changeListeners.add(listener);
+
+      return () => {
+        changeListeners.delete(listener);
+      };
+    },
+    dispatch,
+    undo: () => {
+      dispatch({ type: "UNDO" });
+    },
+    redo: () => {
+      dispatch({ type: "REDO" });
+    },
+    clearHistory: () => {
+      apply({ type: "CLEAR_HISTORY" });
+      commit();
+    },
+    clearActivity: () => {
+      activity = [];
+      commit();
+    },
+    hydrate,
+    replace,
+    serialize,
+    setOptions: nextOptions => {
+      const { ttl } = options;
+
+      options = { ...options, ...nextOptions };
+
+      if (options.ttl !== ttl) scheduleExpiry();
+    },
+    destroy: () => {
+      if (expiryTimer !== undefined) clearTimeout(expiryTimer);
+
+      devtools && devtools.disconnect();
+    },
+  };
+
+  if (hydrated) expireItems();
+
+  return (store as unknown) as WatchlistStore<TItem, TMetadata>;
+};
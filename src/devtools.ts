@@ -0,0 +1,110 @@
+import { InitialState, WatchlistActivityEntry } from "./types";
+
+export interface WatchlistDevtoolsOptions {
+  name?: string;
+}
+
+interface LiftedState {
+  computedStates: { state: InitialState }[];
+}
+
+interface DevtoolsMessage {
+  type: string;
+  state?: string;
+  payload?: { type: string; nextLiftedState?: LiftedState };
+}
+
+interface DevtoolsConnection {
+  init: (state: InitialState) => void;
+  send: (
+    action: WatchlistActivityEntry["action"] | null,
+    state: InitialState | LiftedState
+  ) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void;
+}
+
+interface DevtoolsExtension {
+  connect: (options: {
+    name: string;
+    features: { [feature: string]: boolean | string };
+  }) => DevtoolsConnection;
+}
+
+export interface WatchlistDevtools {
+  send: (action: WatchlistActivityEntry["action"], state: InitialState) => void;
+  disconnect: () => void;
+}
+
+// Speaks the Redux DevTools extension protocol. Returns `undefined` when the
+// extension is not installed, so callers can skip reporting altogether.
+export const connectDevtools = (
+  name: string,
+  getState: () => InitialState,
+  setState: (state: InitialState) => void
+): WatchlistDevtools | undefined => {
+  const extension =
+    typeof window !== "undefined"
+      ? (window as Window & {
+          __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension;
+        }).__REDUX_DEVTOOLS_EXTENSION__
+      : undefined;
+
+  if (!extension) return undefined;
+
+  const connection = extension.connect({
+    name,
+    features: { jump: true, import: "custom", export: true, dispatch: false },
+  });
+
+  const unsubscribe = connection.subscribe(message => {
+    if (message.type !== "DISPATCH" || !message.payload) return;
+
+    switch (message.payload.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        setState(JSON.parse(message.state!));
+
+        return;
+
+      case "ROLLBACK": {
+        const state = JSON.parse(message.state!);
+
+        setState(state);
+        connection.init(state);
+
+        return;
+      }
+
+      case "COMMIT":
+        connection.init(getState());
+
+        return;
+
+      // The monitor keeps its own copy of the imported history, so it only
+      // needs the lifted state sent back to show it.
+      case "IMPORT_STATE": {
+        const liftedState = message.payload.nextLiftedState;
+        const computedStates =
+          (liftedState && liftedState.computedStates) || [];
+
+        if (!computedStates.length) return;
+
+        setState(computedStates[computedStates.length - 1].state);
+        connection.send(null, liftedState!);
+
+        return;
+      }
+    }
+  });
+
+  connection.init(getState());
+
+  return {
+    send: (action, state) => connection.send(action, state),
+    disconnect: () => {
+      if (typeof unsubscribe === "function") unsubscribe();
+    },
+  };
+};
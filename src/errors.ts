@@ -0,0 +1,59 @@
+import { Item, WatchlistErrorCode, WatchlistValidation } from "./types";
+
+export class WatchlistError extends Error {
+  code: WatchlistErrorCode;
+  item?: Partial<Item>;
+
+  constructor(code: WatchlistErrorCode, message: string, item?: Partial<Item>) {
+    super(message);
+
+    // Keeps `instanceof` working once compiled down to ES5.
+    Object.setPrototypeOf(this, WatchlistError.prototype);
+
+    this.name = "WatchlistError";
+    this.code = code;
+    this.item = item;
+  }
+}
+
+export const isValidQuantity = (quantity: unknown) =>
+  typeof quantity === "number" && isFinite(quantity) && quantity > 0;
+
+// Runs the built-in checks before `validateItem`, so a custom validator can
+// rely on the item having an id, a price and a sensible quantity.
+export const findItemError = (
+  item: Item,
+  { validateItem }: WatchlistValidation = {}
+) => {
+  if (!item.id)
+    return new WatchlistError(
+      "MISSING_ID",
+      "You must provide an `id` for items",
+      item
+    );
+
+  if (typeof item.price !== "number" || !isFinite(item.price))
+    return new WatchlistError(
+      "INVALID_PRICE",
+      "You must pass a numeric `price` for items",
+      item
+    );
+
+  if (item.quantity !== undefined && !isValidQuantity(item.quantity))
+    return new WatchlistError(
+      "INVALID_QUANTITY",
+      "`quantity` must be a positive number",
+      item
+    );
+
+  const result = validateItem && validateItem(item);
+
+  if (result === false || typeof result === "string")
+    return new WatchlistError(
+      "INVALID_ITEM",
+      typeof result === "string" ? result : "Invalid item",
+      item
+    );
+
+  return undefined;
+};
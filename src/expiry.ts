@@ -0,0 +1,16 @@
+import { Item } from "./types";
+
+// setTimeout overflows past roughly 24.8 days, so longer waits are chained.
+export const MAX_TIMEOUT = 2 ** 31 - 1;
+
+export const getExpiry = (item: Item, ttl?: number) =>
+  item.expiresAt ??
+  (ttl !== undefined && item.addedAt !== undefined
+    ? item.addedAt + ttl
+    : undefined);
+
+export const isExpired = (item: Item, now: number, ttl?: number) => {
+  const expiry = getExpiry(item, ttl);
+
+  return expiry !== undefined && expiry <= now;
+};
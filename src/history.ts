@@ -0,0 +1,113 @@
+import { Actions, InitialState, Item } from "./types";
+
+export interface WatchlistHistory {
+  past: InitialState[];
+  future: InitialState[];
+}
+
+export interface HistoryState extends WatchlistHistory {
+  present: InitialState;
+}
+
+export type HistoryActions =
+  | Actions
+  | { type: "UNDO" }
+  | { type: "REDO" }
+  | { type: "CLEAR_HISTORY" }
+  | { type: "RESTORE_HISTORY"; payload: WatchlistHistory }
+  | { type: "PURGE_ITEMS"; ids: Item["id"][] };
+
+export const createHistory = (
+  present: InitialState,
+  { past, future }: WatchlistHistory = { past: [], future: [] }
+): HistoryState => ({ past, present, future });
+
+const isSameWatchlist = (a: InitialState, b: InitialState) =>
+  JSON.stringify([a.items, a.metadata]) ===
+  JSON.stringify([b.items, b.metadata]);
+
+export const withHistory = (
+  reducer: (state: InitialState, action: Actions) => InitialState,
+  depth: number
+) => (state: HistoryState, action: HistoryActions): HistoryState => {
+  switch (action.type) {
+    case "UNDO": {
+      if (!state.past.length) return state;
+
+      const past = state.past.slice(0, -1);
+      const present = state.past[state.past.length - 1];
+
+      return {
+        past,
+        present,
+        future: [state.present, ...state.future],
+      };
+    }
+
+    case "REDO": {
+      if (!state.future.length) return state;
+
+      const [present, ...future] = state.future;
+
+      return {
+        past: [...state.past, state.present],
+        present,
+        future,
+      };
+    }
+
+    case "CLEAR_HISTORY":
+      return createHistory(state.present);
+
+    case "RESTORE_HISTORY":
+      return createHistory(state.present, action.payload);
+
+    // Purged items leave every snapshot, so undo cannot bring them back.
+    // Steps that only touched those items are dropped, as undoing them would
+    // change nothing.
+    case "PURGE_ITEMS": {
+      const ids = new Set(action.ids);
+      const purge = (snapshot: InitialState) =>
+        snapshot.items.some((item: Item) => ids.has(item.id))
+          ? reducer(snapshot, {
+              type: "BATCH",
+              actions: action.ids.map(id => ({
+                type: "REMOVE_ITEM" as const,
+                id,
+              })),
+            })
+          : snapshot;
+      const present = purge(state.present);
+      const collapse = (snapshots: InitialState[]) => {
+        let last = present;
+
+        return snapshots.map(purge).filter(snapshot => {
+          if (isSameWatchlist(snapshot, last)) return false;
+
+          last = snapshot;
+
+          return true;
+        });
+      };
+
+      return {
+        past: collapse([...state.past].reverse()).reverse(),
+        present,
+        future: collapse(state.future),
+      };
+    }
+
+    // Hydrating replaces the list wholesale, so earlier snapshots no longer
+    // describe the same watchlist.
+    case "HYDRATE_WATCHLIST":
+      return createHistory(reducer(state.present, action));
+
+    default:
+      return {
+        past:
+          depth > 0 ? [...state.past, state.present].slice(-depth) : state.past,
+        present: reducer(state.present, action),
+        future: [],
+      };
+  }
+};
@@ -0,0 +1,289 @@
+import {
+  InitialState,
+  Item,
+  Metadata,
+  WatchlistExportFormat,
+  WatchlistImportRejection,
+} from "./types";
+
+// Recalculated on import, and meaningless to whoever receives the export.
+const DERIVED_FIELDS = [
+  "itemTotal",
+  "priceHistory",
+  "priceAtAdd",
+  "lowestPrice",
+  "priceDelta",
+  "addedAt",
+  "updatedAt",
+];
+
+const NUMERIC_COLUMNS = ["price", "quantity", "priority", "expiresAt"];
+
+const JSON_COLUMNS = ["tags", "targetPrice"];
+
+export interface DecodedWatchlist {
+  items: Item[];
+  // The row each item came from.
+  indexes: number[];
+  metadata?: Metadata;
+  rejected: WatchlistImportRejection[];
+}
+
+const toExportedItem = (item: Item) => {
+  const exported: Item = { ...item };
+
+  DERIVED_FIELDS.forEach(field => delete exported[field]);
+
+  return exported;
+};
+
+// Node only has `btoa` and `atob` from version 16, so older versions fall
+// back to `Buffer`.
+const toBase64 = (value: string) =>
+  typeof btoa === "function"
+    ? btoa(unescape(encodeURIComponent(value)))
+    : Buffer.from(value, "utf8").toString("base64");
+
+const fromBase64 = (value: string) =>
+  typeof atob === "function"
+    ? decodeURIComponent(escape(atob(value)))
+    : Buffer.from(value, "base64").toString("utf8");
+
+const encodeBase64Url = (value: string) =>
+  toBase64(value)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const decodeBase64Url = (value: string) =>
+  fromBase64(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+// Spreadsheets run text starting with `=`, `+`, `-` or `@` as a formula, so
+// it is exported behind a `'`. Text that already starts with a `'` gets one
+// too, so the import can always strip it again.
+const FORMULA_PREFIX = /^[=+\-@']/;
+
+const escapeFormula = (text: string) =>
+  FORMULA_PREFIX.test(text) ? `'${text}` : text;
+
+const unescapeFormula = (text: string) =>
+  text[0] === "'" && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+
+const toCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+
+  const cell =
+    typeof value === "string" ? escapeFormula(value) : JSON.stringify(value);
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+const encodeCsv = (items: Item[]) => {
+  const columns = ["id", "price", "quantity"];
+
+  items.forEach(item =>
+    Object.keys(item).forEach(key => columns.includes(key) || columns.push(key))
+  );
+
+  return [columns, ...items.map(item => columns.map(key => item[key]))]
+    .map(row => row.map(toCell).join(","))
+    .join("\n");
+};
+
+const parseCsvRows = (csv: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") i++;
+
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  rows.push([...row, cell]);
+
+  return rows.filter(cells => cells.some(value => value !== ""));
+};
+
+// Tags and targets are exported as JSON. Anything else is kept as the raw
+// text, so the row is rejected rather than silently losing its tags or target.
+const parseJson = (cell: string) => {
+  try {
+    return JSON.parse(cell);
+  } catch (error) {
+    return cell;
+  }
+};
+
+// Booleans are exported as `true` or `false`. Anything else is kept as the
+// raw text, so the row is rejected.
+const parseBoolean = (cell: string) =>
+  cell === "true" ? true : cell === "false" ? false : cell;
+
+// Cells come back as strings, apart from the numeric, boolean and JSON
+// columns.
+const decodeCsv = (csv: string) => {
+  const [columns = [], ...rows] = parseCsvRows(csv);
+
+  if (!columns.includes("id")) throw new Error("Missing `id` column");
+
+  return rows.map(cells =>
+    columns.reduce<Record<string, unknown>>((row, column, index) => {
+      const cell = cells[index];
+
+      if (cell === undefined || cell === "") return row;
+
+      row[column] = NUMERIC_COLUMNS.includes(column)
+        ? Number(cell)
+        : column === "pinned"
+        ? parseBoolean(cell)
+        : JSON_COLUMNS.includes(column)
+        ? parseJson(cell)
+        : unescapeFormula(cell);
+
+      return row;
+    }, {})
+  );
+};
+
+const isTargetPrice = (target: any) =>
+  !!target &&
+  typeof target === "object" &&
+  typeof target.price === "number" &&
+  isFinite(target.price) &&
+  (target.direction === "below" || target.direction === "above");
+
+const getItemError = (row: any, seen: Set<string>) => {
+  if (!row || typeof row !== "object" || Array.isArray(row))
+    return "Expected an item";
+  if (typeof row.id !== "string" || !row.id) return "Missing `id`";
+  if (seen.has(row.id)) return "Duplicate `id`";
+  if (typeof row.price !== "number" || !isFinite(row.price))
+    return "Invalid `price`";
+  if (
+    row.quantity !== undefined &&
+    (typeof row.quantity !== "number" || !(row.quantity > 0))
+  )
+    return "Invalid `quantity`";
+  if (
+    row.priority !== undefined &&
+    (typeof row.priority !== "number" || !isFinite(row.priority))
+  )
+    return "Invalid `priority`";
+  if (
+    row.expiresAt !== undefined &&
+    (typeof row.expiresAt !== "number" || !isFinite(row.expiresAt))
+  )
+    return "Invalid `expiresAt`";
+  if (row.pinned !== undefined && typeof row.pinned !== "boolean")
+    return "Invalid `pinned`";
+  if (
+    row.tags !== undefined &&
+    (!Array.isArray(row.tags) ||
+      row.tags.some((tag: unknown) => typeof tag !== "string"))
+  )
+    return "Invalid `tags`";
+  if (row.targetPrice !== undefined && !isTargetPrice(row.targetPrice))
+    return "Invalid `targetPrice`";
+
+  return undefined;
+};
+
+export const encodeWatchlist = (
+  { items, metadata }: InitialState,
+  format: WatchlistExportFormat = "json"
+) => {
+  const exported = items.map(toExportedItem);
+
+  if (format === "csv") return encodeCsv(exported);
+
+  const json = JSON.stringify({ items: exported, metadata });
+
+  return format === "url" ? encodeBase64Url(json) : json;
+};
+
+const detectFormat = (data: string): WatchlistExportFormat => {
+  if (/^[[{]/.test(data)) return "json";
+
+  return /[,\r\n]/.test(data) || data === "id" ? "csv" : "url";
+};
+
+// Malformed input throws. Well-formed input is split into valid items and
+// rejected rows, so one bad row does not stop the rest from importing.
+export const decodeWatchlist = (
+  data: string,
+  format: WatchlistExportFormat = detectFormat(data.trim())
+): DecodedWatchlist => {
+  let rows: unknown[];
+  let metadata: Metadata | undefined;
+
+  try {
+    if (format === "csv") {
+      rows = decodeCsv(data);
+    } else {
+      const parsed = JSON.parse(
+        format === "url" ? decodeBase64Url(data.trim()) : data
+      );
+
+      rows = Array.isArray(parsed) ? parsed : parsed && parsed.items;
+      metadata = Array.isArray(parsed) ? undefined : parsed.metadata;
+    }
+  } catch (error) {
+    throw new Error(`Cannot read the imported watchlist: ${error.message}`);
+  }
+
+  if (!Array.isArray(rows))
+    throw new Error("Cannot read the imported watchlist: missing items");
+  if (
+    metadata !== undefined &&
+    (!metadata || typeof metadata !== "object" || Array.isArray(metadata))
+  )
+    throw new Error("Cannot read the imported watchlist: invalid metadata");
+
+  const seen = new Set<string>();
+  const items: Item[] = [];
+  const indexes: number[] = [];
+  const rejected: WatchlistImportRejection[] = [];
+
+  rows.forEach((row, index) => {
+    const reason = getItemError(row, seen);
+
+    if (reason) {
+      rejected.push({ index, row, reason });
+
+      return;
+    }
+
+    const item = toExportedItem(row as Item);
+
+    seen.add(item.id);
+    items.push(item);
+    indexes.push(index);
+  });
+
+  return { items, indexes, metadata, rejected };
+};
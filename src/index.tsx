@@ -1,348 +1,494 @@
 import * as React from "react";
 
 import useLocalStorage from "./useLocalStorage";
-
-export interface Item {
-  id: string;
-  price: number;
-  quantity?: number;
-  itemTotal?: number;
-  [key: string]: any;
-}
-
-interface InitialState {
-  id: string;
-  items: Item[];
-  isEmpty: boolean;
-  totalItems: number;
-  totalUniqueItems: number;
-  //cartTotal: number;
-  metadata?: Metadata;
-}
-
-export interface Metadata {
-  [key: string]: any;
+import { createAsyncStorage } from "./createAsyncStorage";
+import {
+  WatchlistStoreOptions,
+  createWatchlistStore,
+} from "./createWatchlistStore";
+import { generateWatchlistState } from "./reducer";
+import {
+  Actions,
+  Item,
+  ItemBase,
+  Metadata,
+  WatchlistMiddleware,
+  WatchlistProviderState,
+  WatchlistRemote,
+  WatchlistRemoteState,
+  WatchlistStorage,
+  WatchlistStorageAdapter,
+} from "./types";
+import { isExpired } from "./expiry";
+import { WatchlistActivityContext } from "./useWatchlistActivity";
+import useRemoteSync, { OutboxEntry } from "./useRemoteSync";
+import { WatchlistContext } from "./useWatchlist";
+import {
+  WatchlistSubscription,
+  WatchlistSubscriptionContext,
+  createSelectorHook,
+  useWatchlistSubscription,
+} from "./useWatchlistSelector";
+
+export {
+  Actions,
+  Item,
+  ItemBase,
+  Metadata,
+  PricePoint,
+  WatchlistActivityEntry,
+  WatchlistBatchEvent,
+  WatchlistChangeEvent,
+  WatchlistCheckedAction,
+  WatchlistConflictStrategy,
+  WatchlistErrorCode,
+  WatchlistExportFormat,
+  WatchlistImportOptions,
+  WatchlistImportRejection,
+  WatchlistImportResult,
+  WatchlistLimitEvent,
+  WatchlistLimitPolicy,
+  WatchlistLimits,
+  WatchlistMergeOptions,
+  WatchlistMergeReport,
+  WatchlistMergeResult,
+  WatchlistMergeSource,
+  WatchlistMiddleware,
+  WatchlistMiddlewareAction,
+  WatchlistMiddlewareAPI,
+  WatchlistProviderState,
+  WatchlistRemote,
+  WatchlistRemoteState,
+  WatchlistResult,
+  WatchlistStorage,
+  WatchlistStorageAdapter,
+  WatchlistTag,
+  WatchlistTargetDirection,
+  WatchlistTargetPrice,
+  WatchlistValidation,
+} from "./types";
+export { initialState } from "./reducer";
+export { createWatchlistIdentifier } from "./utils";
+export { createAsyncStorage } from "./createAsyncStorage";
+export { WatchlistDevtoolsOptions } from "./devtools";
+export { WatchlistError } from "./errors";
+export {
+  WatchlistStore,
+  WatchlistStoreOptions,
+  createWatchlistStore,
+} from "./createWatchlistStore";
+export { mergeWatchlists } from "./mergeWatchlists";
+export { Migrations } from "./persistence";
+export {
+  MultiWatchlistProvider,
+  WatchlistList,
+  WatchlistListOptions,
+  WatchlistListState,
+  useWatchlists,
+} from "./MultiWatchlistProvider";
+export { useWatchlist } from "./useWatchlist";
+export { useWatchlistSelector } from "./useWatchlistSelector";
+export {
+  WatchlistActivity,
+  useWatchlistActivity,
+} from "./useWatchlistActivity";
+export { WatchlistAlerts, useWatchlistAlerts } from "./useWatchlistAlerts";
+export {
+  WatchlistGroup,
+  WatchlistView,
+  WatchlistViewOptions,
+  useWatchlistView,
+} from "./useWatchlistView";
+
+export interface WatchlistProviderProps<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+>
+  extends Omit<
+    WatchlistStoreOptions<TItem, TMetadata>,
+    "storage" | "hydrated"
+  > {
+  children?: React.ReactNode;
+  storage?: WatchlistStorage | WatchlistStorageAdapter;
+  sync?: boolean;
+  remote?: WatchlistRemote;
+  onRemoteReject?: (action: Actions) => void;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  ssr?: boolean;
 }
 
-interface WatchlistProviderState extends InitialState {
-  addItem: (item: Item, quantity?: number) => void;
-  removeItem: (id: Item["id"]) => void;
-  updateItem: (id: Item["id"], payload: object) => void;
-  setItems: (items: Item[]) => void;
-  updateItemQuantity: (id: Item["id"], quantity: number) => void;
-  emptyWatchlist: () => void;
-  getItem: (id: Item["id"]) => any | undefined;
-  inWatchlist: (id: Item["id"]) => boolean;
-  clearWatchlistMetadata: () => void;
-  setWatchlistMetadata: (metadata: Metadata) => void;
-  updateWatchlistMetadata: (metadata: Metadata) => void;
+interface WatchlistContexts {
+  watchlist: React.Context<WatchlistProviderState | undefined>;
+  subscription: React.Context<WatchlistSubscription | undefined>;
 }
 
-export type Actions =
-  | { type: "SET_ITEMS"; payload: Item[] }
-  | { type: "ADD_ITEM"; payload: Item }
-  | { type: "REMOVE_ITEM"; id: Item["id"] }
-  | {
-      type: "UPDATE_ITEM";
-      id: Item["id"];
-      payload: object;
-    }
-  | { type: "EMPTY_WATCHLIST" }
-  | { type: "CLEAR_WATCHLIST_META" }
-  | { type: "SET_WATCHLIST_META"; payload: Metadata }
-  | { type: "UPDATE_WATCHLIST_META"; payload: Metadata };
-
-export const initialState: any = {
-  items: [],
-  isEmpty: true,
-  totalItems: 0,
-  totalUniqueItems: 0,
-  //cartTotal: 0,
-  metadata: {},
-};
-
-const WatchlistContext = React.createContext<WatchlistProviderState | undefined>(
-  initialState
-);
-
-export const createWatchlistIdentifier = (len = 12) =>
-  [...Array(len)].map(() => (~~(Math.random() * 36)).toString(36)).join("");
+// A thin binding over `createWatchlistStore`. The provider adds what needs
+// React: hook-based storage and remote sync.
+// Typed watchlists pass their own `contexts`, which are filled alongside the
+// untyped ones so hooks such as `useWatchlistView` still work under them.
+const StoreProvider: React.FC<WatchlistProviderProps & {
+  contexts?: WatchlistContexts;
+}> = ({
+  contexts,
+  children,
+  id: watchlistId,
+  defaultItems,
+  onSetItems,
+  onItemAdd,
+  onItemUpdate,
+  onItemRemove,
+  onPriceChange,
+  onLimitReached,
+  onItemExpire,
+  onBatch,
+  onAlert,
+  onChange,
+  validateItem,
+  onError,
+  ttl,
+  activityLimit = 50,
+  persistActivity = false,
+  middleware = [],
+  maxItems,
+  maxQuantityPerItem,
+  limitPolicy,
+  storage = useLocalStorage,
+  metadata,
+  sync = false,
+  version = 1,
+  migrations,
+  onCorruptState,
+  historyDepth = 20,
+  persistHistory = false,
+  remote,
+  onRemoteReject,
+  retryDelay = 1000,
+  maxRetryDelay = 30000,
+  initialState: serverState,
+  ssr = serverState !== undefined,
+  devtools = false,
+}) => {
+  const corruptState = React.useRef<{ error: Error; value: string }>();
 
-export const useWatchlist = () => {
-  const context = React.useContext(WatchlistContext);
+  // Remote changes are queued once the middleware has let them through.
+  const remoteRef = React.useRef(remote);
+  remoteRef.current = remote;
 
-  if (!context) throw new Error("Expected to be wrapped in a WatchlistProvider");
+  // Undo and redo replace the whole list, so the remote receives the
+  // resulting state rather than the inverse of each action.
+  const recordOutbox: WatchlistMiddleware = ({
+    getState,
+  }) => next => action => {
+    const previous = getState();
 
-  return context;
-};
+    next(action);
 
-function reducer(state: WatchlistProviderState, action: Actions) {
-  switch (action.type) {
-    case "SET_ITEMS":
-      return generateWatchlistState(state, action.payload);
+    if (!remoteRef.current) return;
 
-    case "ADD_ITEM": {
-      const items = [...state.items, action.payload];
+    if (action.type !== "UNDO" && action.type !== "REDO") {
+      setOutbox(current => [...current, { action }]);
 
-      return generateWatchlistState(state, items);
+      return;
     }
 
-    case "UPDATE_ITEM": {
-      const items = state.items.map((item: Item) => {
-        if (item.id !== action.id) return item;
-
-        return {
-          ...item,
-          ...action.payload,
-        };
-      });
+    const present = getState();
 
-      return generateWatchlistState(state, items);
-    }
+    if (present !== previous)
+      setOutbox(current => [
+        ...current,
+        { action: { type: "HYDRATE_WATCHLIST", payload: present } },
+      ]);
+  };
 
-    case "REMOVE_ITEM": {
-      const items = state.items.filter((i: Item) => i.id !== action.id);
+  const storeOptions: WatchlistStoreOptions = {
+    onSetItems,
+    onItemAdd,
+    onItemUpdate,
+    onItemRemove,
+    onPriceChange,
+    onLimitReached,
+    onItemExpire,
+    onBatch,
+    onAlert,
+    onChange,
+    validateItem,
+    onError,
+    ttl,
+    activityLimit,
+    persistActivity,
+    middleware: [...middleware, recordOutbox],
+    maxItems,
+    maxQuantityPerItem,
+    limitPolicy,
+    version,
+    migrations,
+    onCorruptState: (error, savedWatchlist) => {
+      corruptState.current = { error, value: savedWatchlist };
+    },
+    historyDepth,
+    persistHistory,
+  };
 
-      return generateWatchlistState(state, items);
-    }
+  // The store is created once. Options that change later are handed to it
+  // on every render, so actions always see the latest callbacks and limits.
+  const [store] = React.useState(() =>
+    createWatchlistStore({
+      ...storeOptions,
+      id: watchlistId,
+      defaultItems,
+      metadata,
+      initialState: serverState,
+      hydrated: false,
+      devtools,
+    })
+  );
+  store.setOptions(storeOptions);
 
-    case "EMPTY_WATCHLIST":
-      return initialState;
-
-    case "CLEAR_WATCHLIST_META":
-      return {
-        ...state,
-        metadata: {},
-      };
-
-    case "SET_WATCHLIST_META":
-      return {
-        ...state,
-        metadata: {
-          ...action.payload,
-        },
-      };
-
-    case "UPDATE_WATCHLIST_META":
-      return {
-        ...state,
-        metadata: {
-          ...state.metadata,
-          ...action.payload,
-        },
-      };
-
-    default:
-      throw new Error("No action specified");
-  }
-}
+  const useStorage = React.useMemo(
+    () =>
+      typeof storage === "function" ? storage : createAsyncStorage(storage),
+    [storage]
+  );
 
-const generateWatchlistState = (state = initialState, items: Item[]) => {
-  const totalUniqueItems = calculateUniqueItems(items);
-  const isEmpty = totalUniqueItems === 0;
+  const [defaultWatchlist] = React.useState(() =>
+    store.serialize({ outbox: remote ? [] : undefined })
+  );
 
-  return {
-    ...initialState,
-    ...state,
-    items: calculateItemTotals(items),
-    totalItems: calculateTotalItems(items),
-    totalUniqueItems,
-    //cartTotal: calculateTotal(items),
-    isEmpty,
-  };
-};
+  const [
+    savedWatchlist,
+    saveWatchlist,
+    isHydrated = true,
+  ] = useStorage(
+    watchlistId ? `react-use-watchlist-${watchlistId}` : `react-use-watchlist`,
+    defaultWatchlist,
+    { sync, ssr }
+  );
 
-const calculateItemTotals = (items: Item[]) =>
-  items.map(item => ({
-    ...item,
-    itemTotal: item.price * item.quantity!,
-  }));
+  const [outbox, setOutbox] = React.useState<OutboxEntry[]>(() => {
+    const loadedOutbox = isHydrated ? store.hydrate(savedWatchlist) : [];
 
-//const calculateTotal = (items: Item[]) =>
-  //items.reduce((total, item) => total + item.quantity! * item.price, 0);
+    return remote ? loadedOutbox : [];
+  });
 
-const calculateTotalItems = (items: Item[]) =>
-  items.reduce((sum, item) => sum + item.quantity!, 0);
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0);
 
-const calculateUniqueItems = (items: Item[]) => items.length;
+  const history = store.getHistory();
+  const activity = store.getActivity();
+  const state = history.present;
 
-export const WatchlistProvider: React.FC<{
-  children?: React.ReactNode;
-  id?: string;
-  defaultItems?: Item[];
-  onSetItems?: (items: Item[]) => void;
-  onItemAdd?: (payload: Item) => void;
-  onItemUpdate?: (payload: object) => void;
-  onItemRemove?: (id: Item["id"]) => void;
-  storage?: (
-    key: string,
-    initialValue: string
-  ) => [string, (value: Function | string) => void];
-  metadata?: Metadata;
-}> = ({
-  children,
-  id: watchlistId,
-  defaultItems = [],
-  onSetItems,
-  onItemAdd,
-  onItemUpdate,
-  onItemRemove,
-  storage = useLocalStorage,
-  metadata,
-}) => {
-  const id = watchlistId ? watchlistId : createWatchlistIdentifier();
-
-  const [savedWatchlist, saveWatchlist] = storage(
-    watchlistId ? `react-use-watchlist-${id}` : `react-use-watchlist`,
-    JSON.stringify({
-      id,
-      ...initialState,
-      items: defaultItems,
-      metadata,
-    })
-  );
-
-  const [state, dispatch] = React.useReducer(reducer, JSON.parse(savedWatchlist));
+  // Changes made before this effect ran, say by a child's effect, are
+  // caught by comparing against the history this render used.
   React.useEffect(() => {
-    saveWatchlist(JSON.stringify(state));
-  }, [state, saveWatchlist]);
-
-  const setItems = (items: Item[]) => {
-    dispatch({
-      type: "SET_ITEMS",
-      payload: items.map(item => ({
-        ...item,
-        quantity: item.quantity || 1,
-      })),
-    });
-
-    onSetItems && onSetItems(items);
-  };
+    const unsubscribe = store.subscribe(forceRender);
 
-  const addItem = (item: Item, quantity = 1) => {
-    if (!item.id) throw new Error("You must provide an `id` for items");
-    //if (quantity <= 0) return;
+    if (store.getHistory() !== history) forceRender();
 
-    const currentItem = state.items.find((i: Item) => i.id === item.id);
+    return () => {
+      unsubscribe();
+      store.destroy();
+    };
+  }, []);
 
-    //if (!currentItem && !item.hasOwnProperty("price"))
-      //throw new Error("You must pass a `price` for new items");
+  React.useEffect(() => {
+    if (!corruptState.current) return;
 
-    if (!currentItem) {
-      const payload = { ...item, quantity };
+    const { error, value } = corruptState.current;
 
-      dispatch({ type: "ADD_ITEM", payload });
+    onCorruptState && onCorruptState(error, value);
+    corruptState.current = undefined;
+  });
 
-      onItemAdd && onItemAdd(payload);
+  const outboxRef = React.useRef(outbox);
+  outboxRef.current = outbox;
 
-      return;
-    }
+  const serialize = () =>
+    store.serialize({ outbox: remote ? outboxRef.current : undefined });
 
-    const payload = { ...item, quantity: currentItem.quantity + quantity };
+  // Only persist our own changes, so a stale `state` never overwrites a
+  // newer value that another tab has just written.
+  const saveWatchlistRef = React.useRef(saveWatchlist);
+  saveWatchlistRef.current = saveWatchlist;
 
-    dispatch({
-      type: "UPDATE_ITEM",
-      id: item.id,
-      payload,
-    });
+  React.useEffect(() => {
+    if (!isHydrated) return;
 
-    onItemUpdate && onItemUpdate(payload);
-  };
+    saveWatchlistRef.current(serialize());
+  }, [
+    history,
+    outbox,
+    activity,
+    isHydrated,
+    version,
+    persistHistory,
+    persistActivity,
+  ]);
 
-  const updateItem = (id: Item["id"], payload: object) => {
-    if (!id || !payload) {
-      return;
-    }
+  const isHydratedRef = React.useRef(isHydrated);
 
-    dispatch({ type: "UPDATE_ITEM", id, payload });
+  React.useEffect(() => {
+    if (!isHydrated) return;
 
-    onItemUpdate && onItemUpdate(payload);
-  };
+    const wasHydrated = isHydratedRef.current;
+    isHydratedRef.current = true;
 
-  const updateItemQuantity = (id: Item["id"], quantity: number) => {
-    if (quantity <= 0) {
-      onItemRemove && onItemRemove(id);
+    if (wasHydrated && !sync) return;
+    if (store.isHydrated() && savedWatchlist === serialize()) return;
 
-      dispatch({ type: "REMOVE_ITEM", id });
+    const loadedOutbox = store.hydrate(savedWatchlist);
 
-      return;
-    }
+    if (!wasHydrated && remote)
+      setOutbox(current => [...loadedOutbox, ...current]);
+  }, [savedWatchlist, isHydrated, sync]);
 
-    const currentItem = state.items.find((item: Item) => item.id === id);
+  const reconcile = (
+    remoteState: WatchlistRemoteState,
+    pending: OutboxEntry[]
+  ) => {
+    const current = store.getState();
 
-    if (!currentItem) throw new Error("No such item to update");
+    store.replace(
+      generateWatchlistState(
+        { ...current, metadata: remoteState.metadata || current.metadata },
+        remoteState.items.map(item => ({
+          ...item,
+          quantity: item.quantity || 1,
+        }))
+      ),
+      pending.map(({ action }) => action)
+    );
+  };
 
-    const payload = { ...currentItem, quantity };
+  useRemoteSync(remote, {
+    isHydrated,
+    outbox,
+    setOutbox,
+    getState: store.getState,
+    reconcile,
+    onRemoteReject,
+    retryDelay,
+    maxRetryDelay,
+  });
+
+  // Actions come from the store, so their identities stay stable and
+  // components that only use them never re-render on state changes.
+  const actions = React.useMemo(() => {
+    const {
+      getState,
+      getHistory,
+      getActivity,
+      isHydrated,
+      subscribe,
+      subscribeToChanges,
+      dispatch,
+      clearActivity,
+      hydrate,
+      replace,
+      serialize,
+      setOptions,
+      destroy,
+      ...watchlistActions
+    } = store;
+
+    return { ...watchlistActions, subscribe: subscribeToChanges };
+  }, []);
+
+  // Expired items stop counting straight away, even before they are purged.
+  const value = React.useMemo(() => {
+    const now = Date.now();
+    const activeItems = state.items.filter(item => !isExpired(item, now, ttl));
+
+    return {
+      ...state,
+      totalItems: activeItems.reduce(
+        (sum, item) => sum + (item.quantity || 0),
+        0
+      ),
+      totalUniqueItems: activeItems.length,
+      isHydrated,
+      isLoading: !isHydrated,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      pendingChanges: outbox.length,
+      ...actions,
+    };
+  }, [history, isHydrated, outbox.length, actions, ttl]);
+
+  const subscription = useWatchlistSubscription(value);
+
+  const activityValue = React.useMemo(
+    () => ({
+      entries: activity.slice().reverse(),
+      clearActivity: store.clearActivity,
+    }),
+    [activity]
+  );
 
-    dispatch({
-      type: "UPDATE_ITEM",
-      id,
-      payload,
-    });
+  const content = (
+    <WatchlistContext.Provider value={value}>
+      <WatchlistSubscriptionContext.Provider value={subscription}>
+        <WatchlistActivityContext.Provider value={activityValue}>
+          {children}
+        </WatchlistActivityContext.Provider>
+      </WatchlistSubscriptionContext.Provider>
+    </WatchlistContext.Provider>
+  );
 
-    onItemUpdate && onItemUpdate(payload);
-  };
+  if (!contexts) return content;
 
-  const removeItem = (id: Item["id"]) => {
-    if (!id) return;
+  return (
+    <contexts.watchlist.Provider value={value}>
+      <contexts.subscription.Provider value={subscription}>
+        {content}
+      </contexts.subscription.Provider>
+    </contexts.watchlist.Provider>
+  );
+};
 
-    dispatch({ type: "REMOVE_ITEM", id });
+export const WatchlistProvider: React.FC<WatchlistProviderProps> = props => (
+  <StoreProvider {...props} />
+);
 
-    onItemRemove && onItemRemove(id);
+// A typed provider and hooks for one kind of item. Each call gets its own
+// contexts, so typed watchlists can be nested without reading each other.
+export const createWatchlist = <
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+>() => {
+  type State = WatchlistProviderState<TItem, TMetadata>;
+
+  const contexts: WatchlistContexts = {
+    watchlist: React.createContext<WatchlistProviderState | undefined>(
+      undefined
+    ),
+    subscription: React.createContext<WatchlistSubscription | undefined>(
+      undefined
+    ),
   };
 
-  const emptyWatchlist = () =>
-    dispatch({
-      type: "EMPTY_WATCHLIST",
-    });
-
-  const getItem = (id: Item["id"]) =>
-    state.items.find((i: Item) => i.id === id);
-
-  const inWatchlist = (id: Item["id"]) => state.items.some((i: Item) => i.id === id);
+  const TypedWatchlistProvider: React.FC<WatchlistProviderProps> = props => (
+    <StoreProvider {...props} contexts={contexts} />
+  );
 
-  const clearWatchlistMetadata = () => {
-    dispatch({
-      type: "CLEAR_WATCHLIST_META",
-    });
-  };
+  const useTypedWatchlist = () => {
+    const context = React.useContext(contexts.watchlist);
 
-  const setWatchlistMetadata = (metadata: Metadata) => {
-    if (!metadata) return;
+    if (!context)
+      throw new Error("Expected to be wrapped in a WatchlistProvider");
 
-    dispatch({
-      type: "SET_WATCHLIST_META",
-      payload: metadata,
-    });
+    return context;
   };
 
-  const updateWatchlistMetadata = (metadata: Metadata) => {
-    if (!metadata) return;
+  const useTypedSelector = createSelectorHook(contexts.subscription);
 
-    dispatch({
-      type: "UPDATE_WATCHLIST_META",
-      payload: metadata,
-    });
+  return {
+    WatchlistProvider: TypedWatchlistProvider as React.FC<
+      WatchlistProviderProps<TItem, TMetadata>
+    >,
+    useWatchlist: (useTypedWatchlist as unknown) as () => State,
+    useWatchlistSelector: (useTypedSelector as unknown) as <T>(
+      selector: (state: State) => T,
+      equalityFn?: (a: T, b: T) => boolean
+    ) => T,
   };
-
-  return (
-    <WatchlistContext.Provider
-      value={{
-        ...state,
-        getItem,
-        inWatchlist,
-        setItems,
-        addItem,
-        updateItem,
-        updateItemQuantity,
-        removeItem,
-        emptyWatchlist,
-        clearWatchlistMetadata,
-        setWatchlistMetadata,
-        updateWatchlistMetadata,
-      }}
-    >
-      {children}
-    </WatchlistContext.Provider>
-  );
 };
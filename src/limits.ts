@@ -0,0 +1,92 @@
+import {
+  Item,
+  WatchlistLimitEvent,
+  WatchlistLimitPolicy,
+  WatchlistLimits,
+} from "./types";
+
+type EvictionPolicy = Exclude<WatchlistLimitPolicy, "reject">;
+
+// Items without a timestamp have not been stored yet, so they rank newest.
+const ranks: { [policy in EvictionPolicy]: (item: Item) => number } = {
+  "oldest-added": item => item.addedAt ?? Infinity,
+  "least-recently-updated": item => item.updatedAt ?? item.addedAt ?? Infinity,
+  "lowest-priority": item => item.priority ?? 0,
+};
+
+// Ties go to whichever item comes first in the list.
+export const selectEvictions = (
+  items: Item[],
+  count: number,
+  policy: EvictionPolicy
+) => {
+  const rank = ranks[policy];
+
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+    .slice(0, Math.max(count, 0))
+    .map(({ item }) => item);
+};
+
+export const exceedsQuantity = (
+  quantity: number,
+  { maxQuantityPerItem }: WatchlistLimits
+) => maxQuantityPerItem !== undefined && quantity > maxQuantityPerItem;
+
+// Fits a whole replacement list within the limits. Rows over the quantity
+// limit are dropped; the remaining rows are then cut down to `maxItems`.
+export const limitItems = (
+  items: Item[],
+  previousItems: Item[],
+  limits: WatchlistLimits
+) => {
+  const { maxItems, limitPolicy = "reject" } = limits;
+  const events: WatchlistLimitEvent[] = [];
+
+  const tooMany = items.filter(item =>
+    exceedsQuantity(item.quantity || 1, limits)
+  );
+
+  if (tooMany.length)
+    events.push({
+      limit: "maxQuantityPerItem",
+      policy: "reject",
+      rejected: tooMany,
+      evicted: [],
+    });
+
+  let accepted = items.filter(item => !tooMany.includes(item));
+
+  if (maxItems !== undefined && accepted.length > maxItems) {
+    if (limitPolicy === "reject") {
+      events.push({
+        limit: "maxItems",
+        policy: limitPolicy,
+        rejected: accepted.slice(maxItems),
+        evicted: [],
+      });
+
+      accepted = accepted.slice(0, maxItems);
+    } else {
+      // Rank incoming rows by what we already know about the same items.
+      const previous = new Map(previousItems.map(item => [item.id, item]));
+      const evicted = selectEvictions(
+        accepted.map(item => ({ ...previous.get(item.id), ...item })),
+        accepted.length - maxItems,
+        limitPolicy
+      ).map(({ id }) => accepted.find(item => item.id === id)!);
+
+      events.push({
+        limit: "maxItems",
+        policy: limitPolicy,
+        rejected: [],
+        evicted,
+      });
+
+      accepted = accepted.filter(item => !evicted.includes(item));
+    }
+  }
+
+  return { items: accepted, events };
+};
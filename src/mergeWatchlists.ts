@@ -0,0 +1,101 @@
+import {
+  Item,
+  ItemBase,
+  Metadata,
+  WatchlistConflictStrategy,
+  WatchlistMergeOptions,
+  WatchlistMergeResult,
+  WatchlistMergeSource,
+} from "./types";
+
+type ConflictResolver = (source: ItemBase, target: ItemBase) => ItemBase;
+
+const lastChanged = (item: ItemBase) => item.updatedAt ?? item.addedAt ?? 0;
+
+const lastChangedOf = (items: ItemBase[]) =>
+  Math.max(0, ...items.map(lastChanged));
+
+// Ties keep the target, so merging the same list twice changes nothing.
+const resolvers: {
+  [strategy in Exclude<WatchlistConflictStrategy, Function>]: ConflictResolver;
+} = {
+  "prefer-newest": (source, target) =>
+    lastChanged(source) > lastChanged(target) ? source : target,
+  "prefer-source": source => source,
+  "prefer-target": (_source, target) => target,
+  "sum-quantities": (source, target) => ({
+    ...target,
+    quantity: (target.quantity || 1) + (source.quantity || 1),
+  }),
+};
+
+// Metadata has no timestamps, so "prefer-newest" goes by whichever list had
+// an item changed most recently. Custom resolvers only apply to items.
+const mergeMetadata = (
+  source: Metadata | undefined,
+  target: Metadata | undefined,
+  preferSource: boolean
+) => {
+  if (!source) return { metadata: target, changed: [] };
+
+  const metadata = preferSource
+    ? { ...target, ...source }
+    : { ...source, ...target };
+
+  return {
+    metadata,
+    changed: Object.keys(metadata).filter(
+      key => !target || !(key in target) || metadata[key] !== target[key]
+    ),
+  };
+};
+
+// Combines two lists, such as a guest list and an account list. Target items
+// keep their order, and items only in the source are added after them.
+export const mergeWatchlists = <
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+>(
+  source: WatchlistMergeSource<TItem, TMetadata>,
+  target: WatchlistMergeSource<TItem, TMetadata>,
+  { onConflict = "prefer-newest" }: WatchlistMergeOptions<TItem> = {}
+): WatchlistMergeResult<TItem, TMetadata> => {
+  const resolve = (typeof onConflict === "function"
+    ? onConflict
+    : resolvers[onConflict]) as (source: TItem, target: TItem) => TItem;
+
+  const sourceItems = new Map(source.items.map(item => [item.id, item]));
+  const updated: TItem[] = [];
+
+  const items = target.items.map(targetItem => {
+    const sourceItem = sourceItems.get(targetItem.id);
+
+    if (!sourceItem) return targetItem;
+
+    sourceItems.delete(targetItem.id);
+
+    const item = resolve(sourceItem, targetItem);
+
+    if (item !== targetItem) updated.push(item);
+
+    return item;
+  });
+
+  const added = Array.from(sourceItems.values());
+
+  const { metadata, changed } = mergeMetadata(
+    source.metadata as Metadata | undefined,
+    target.metadata as Metadata | undefined,
+    onConflict === "prefer-source" ||
+      (onConflict === "prefer-newest" &&
+        lastChangedOf(source.items) > lastChangedOf(target.items))
+  );
+
+  return {
+    items: [...items, ...added],
+    metadata: metadata as TMetadata | undefined,
+    added,
+    updated,
+    changedMetadata: changed,
+  };
+};
@@ -0,0 +1,122 @@
+import { WatchlistHistory } from "./history";
+import { InitialState, Item, WatchlistActivityEntry } from "./types";
+import { OutboxEntry } from "./useRemoteSync";
+
+export interface Migrations {
+  [version: number]: (state: any) => any;
+}
+
+const isValidItem = (item: Item) =>
+  !!item &&
+  typeof item === "object" &&
+  typeof item.id === "string" &&
+  typeof item.price === "number" &&
+  (item.quantity === undefined || typeof item.quantity === "number");
+
+const isValidWatchlist = (state: InitialState) =>
+  !!state &&
+  typeof state === "object" &&
+  Array.isArray(state.items) &&
+  state.items.every(isValidItem) &&
+  (state.metadata === undefined || typeof state.metadata === "object");
+
+const isValidHistory = (history: WatchlistHistory) =>
+  !!history &&
+  Array.isArray(history.past) &&
+  Array.isArray(history.future) &&
+  [...history.past, ...history.future].every(isValidWatchlist);
+
+const isValidOutbox = (outbox: OutboxEntry[]) =>
+  Array.isArray(outbox) &&
+  outbox.every(
+    entry => !!entry && !!entry.action && typeof entry.action.type === "string"
+  );
+
+const isValidActivity = (activity: WatchlistActivityEntry[]) =>
+  Array.isArray(activity) &&
+  activity.every(
+    entry =>
+      !!entry &&
+      typeof entry.at === "number" &&
+      !!entry.action &&
+      typeof entry.action.type === "string"
+  );
+
+interface PersistedExtras {
+  history?: WatchlistHistory;
+  outbox?: OutboxEntry[];
+  activity?: WatchlistActivityEntry[];
+}
+
+export const serializeWatchlist = (
+  state: InitialState,
+  version: number,
+  { history, outbox, activity }: PersistedExtras = {}
+) =>
+  JSON.stringify({
+    ...state,
+    version,
+    history: history && { past: history.past, future: history.future },
+    outbox,
+    activity,
+  });
+
+// Snapshots written before versioning was introduced count as version 1.
+// `migrations[n]` upgrades a version `n - 1` snapshot to version `n`.
+// Persisted history is only kept when no migration was needed.
+export const parseWatchlist = (
+  savedWatchlist: string,
+  version: number,
+  migrations: Migrations = {}
+): { state: InitialState } & PersistedExtras => {
+  let {
+    version: savedVersion = 1,
+    history,
+    outbox,
+    activity,
+    ...state
+  } = JSON.parse(savedWatchlist);
+
+  if (savedVersion > version)
+    throw new Error(
+      `Cannot read a watchlist saved with version ${savedVersion}`
+    );
+
+  for (let next = savedVersion + 1; next <= version; next++) {
+    if (!migrations[next])
+      throw new Error(`No migration to watchlist version ${next}`);
+
+    state = migrations[next](state);
+  }
+
+  if (!isValidWatchlist(state)) throw new Error("Invalid watchlist state");
+
+  return {
+    state,
+    history:
+      savedVersion === version && isValidHistory(history) ? history : undefined,
+    outbox: isValidOutbox(outbox) ? outbox : undefined,
+    activity: isValidActivity(activity) ? activity : undefined,
+  };
+};
+
+// `MultiWatchlistProvider` stores its lists together without a version, so
+// only the shape is checked.
+export const parseWatchlists = (
+  savedWatchlists: string
+): { id: string; lists: (InitialState & { name: string })[] } => {
+  const state = JSON.parse(savedWatchlists);
+
+  if (
+    !state ||
+    typeof state !== "object" ||
+    !Array.isArray(state.lists) ||
+    !state.lists.every(
+      (list: InitialState & { name: string }) =>
+        isValidWatchlist(list) && typeof list.name === "string"
+    )
+  )
+    throw new Error("Invalid watchlists state");
+
+  return state;
+};
@@ -0,0 +1,337 @@
+import { Actions, InitialState, Item, WatchlistTargetPrice } from "./types";
+import { rearmTargets } from "./alerts";
+import { calculateTags, getTags, hasTag, withTag } from "./tags";
+
+const PRICE_HISTORY_LENGTH = 20;
+
+export const initialState: any = {
+  items: [],
+  isEmpty: true,
+  totalItems: 0,
+  totalUniqueItems: 0,
+  tags: [],
+  //cartTotal: 0,
+  metadata: {},
+};
+
+export function reducer(state: InitialState, action: Actions): InitialState {
+  switch (action.type) {
+    case "SET_ITEMS":
+      return generateWatchlistState(
+        state,
+        keepOrder(state.items, action.payload)
+      );
+
+    case "ADD_ITEM": {
+      const currentItem = state.items.find(
+        (i: Item) => i.id === action.payload.id
+      );
+
+      // Queued adds can be replayed onto a hydrated list that already holds
+      // the item, so merge quantities rather than adding a duplicate.
+      const items = currentItem
+        ? state.items.map((i: Item) =>
+            i.id === action.payload.id
+              ? {
+                  ...i,
+                  quantity: i.quantity! + action.payload.quantity!,
+                  updatedAt: Date.now(),
+                }
+              : i
+          )
+        : [...state.items, action.payload];
+
+      return generateWatchlistState(state, items);
+    }
+
+    case "UPDATE_ITEM": {
+      const items = state.items.map((item: Item) => {
+        if (item.id !== action.id) return item;
+
+        return {
+          ...item,
+          ...action.payload,
+          updatedAt: Date.now(),
+        };
+      });
+
+      return generateWatchlistState(state, items);
+    }
+
+    case "REMOVE_ITEM": {
+      const items = state.items.filter((i: Item) => i.id !== action.id);
+
+      return generateWatchlistState(state, items);
+    }
+
+    case "MOVE_ITEM": {
+      const item = state.items.find((i: Item) => i.id === action.id);
+
+      if (!item) return state;
+
+      const items = state.items.filter((i: Item) => i.id !== action.id);
+
+      items.splice(Math.max(0, action.toIndex), 0, item);
+
+      return generateWatchlistState(state, items);
+    }
+
+    case "PIN_ITEM":
+    case "UNPIN_ITEM":
+      return reducer(state, {
+        type: "UPDATE_ITEM",
+        id: action.id,
+        payload: { pinned: action.type === "PIN_ITEM" },
+      });
+
+    case "SET_ITEM_PRIORITY":
+      return reducer(state, {
+        type: "UPDATE_ITEM",
+        id: action.id,
+        payload: { priority: action.priority },
+      });
+
+    case "ADD_TAG":
+    case "REMOVE_TAG": {
+      const item = state.items.find((i: Item) => i.id === action.id);
+
+      if (!item || hasTag(item, action.tag) === (action.type === "ADD_TAG"))
+        return state;
+
+      const tags = getTags(item);
+
+      return reducer(state, {
+        type: "UPDATE_ITEM",
+        id: action.id,
+        payload: {
+          tags:
+            action.type === "ADD_TAG"
+              ? withTag(tags, action.tag)
+              : tags.filter(tag => tag !== action.tag),
+        },
+      });
+    }
+
+    case "RENAME_TAG": {
+      const items = state.items.map((item: Item) =>
+        hasTag(item, action.from)
+          ? {
+              ...item,
+              tags: withTag(
+                getTags(item).filter(tag => tag !== action.from),
+                action.to
+              ),
+              updatedAt: Date.now(),
+            }
+          : item
+      );
+
+      return generateWatchlistState(state, items);
+    }
+
+    case "REMOVE_ITEMS_BY_TAG": {
+      const items = state.items.filter(
+        (item: Item) => !hasTag(item, action.tag)
+      );
+
+      return generateWatchlistState(state, items);
+    }
+
+    case "BATCH":
+      return action.actions.reduce(reducer, state);
+
+    case "SET_TARGET_PRICE":
+      return updateTargetPrice(state, action.id, () => action.targetPrice);
+
+    case "ACKNOWLEDGE_ALERT":
+      return updateTargetPrice(
+        state,
+        action.id,
+        targetPrice => targetPrice && { ...targetPrice, acknowledged: true }
+      );
+
+    case "SNOOZE_ALERT":
+      return updateTargetPrice(
+        state,
+        action.id,
+        targetPrice =>
+          targetPrice && { ...targetPrice, snoozedUntil: action.until }
+      );
+
+    case "EMPTY_WATCHLIST":
+      return initialState;
+
+    case "CLEAR_WATCHLIST_META":
+      return {
+        ...state,
+        metadata: {},
+      };
+
+    case "SET_WATCHLIST_META":
+      return {
+        ...state,
+        metadata: {
+          ...action.payload,
+        },
+      };
+
+    case "UPDATE_WATCHLIST_META":
+      return {
+        ...state,
+        metadata: {
+          ...state.metadata,
+          ...action.payload,
+        },
+      };
+
+    case "HYDRATE_WATCHLIST":
+      return action.payload;
+
+    default:
+      throw new Error("No action specified");
+  }
+}
+
+// Alerts are bookkeeping rather than changes to the item, so they leave
+// `updatedAt` alone.
+const updateTargetPrice = (
+  state: InitialState,
+  id: Item["id"],
+  update: (
+    targetPrice: WatchlistTargetPrice | undefined
+  ) => WatchlistTargetPrice | undefined
+) =>
+  generateWatchlistState(
+    state,
+    state.items.map((item: Item) =>
+      item.id === id ? { ...item, targetPrice: update(item.targetPrice) } : item
+    )
+  );
+
+export const generateWatchlistState = (state = initialState, items: Item[]) => {
+  const totalUniqueItems = calculateUniqueItems(items);
+  const isEmpty = totalUniqueItems === 0;
+
+  return {
+    ...initialState,
+    ...state,
+    items: calculateItemTotals(
+      calculatePrices(
+        state.items,
+        calculateTimestamps(state.items, rearmTargets(pinnedFirst(items)))
+      )
+    ),
+    totalItems: calculateTotalItems(items),
+    totalUniqueItems,
+    tags: calculateTags(items),
+    //cartTotal: calculateTotal(items),
+    isEmpty,
+  };
+};
+
+// Items already in the list keep their place, pin, priority and target price,
+// so merging through `setItems` does not undo what the user set. New items
+// go last.
+const keepOrder = (previousItems: Item[], items: Item[]) => {
+  const positions = new Map(
+    previousItems.map((item, index) => [item.id, index])
+  );
+
+  return items
+    .map((item, index) => {
+      const position = positions.get(item.id);
+
+      if (position === undefined)
+        return { item, rank: previousItems.length + index };
+
+      const { pinned, priority, targetPrice } = previousItems[position];
+
+      return {
+        item: {
+          ...item,
+          pinned: item.pinned ?? pinned,
+          priority: item.priority ?? priority,
+          targetPrice: item.targetPrice ?? targetPrice,
+        },
+        rank: position,
+      };
+    })
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+};
+
+const pinnedFirst = (items: Item[]) => [
+  ...items.filter(item => item.pinned),
+  ...items.filter(item => !item.pinned),
+];
+
+// Items keep the time they were first added, however they are replaced.
+// `updatedAt` is bumped by the reducer when an item itself changes.
+const calculateTimestamps = (previousItems: Item[] = [], items: Item[]) => {
+  const previous = new Map(previousItems.map(item => [item.id, item]));
+  const now = Date.now();
+
+  return items.map(item => {
+    const previousItem = previous.get(item.id);
+    const addedAt = item.addedAt ?? previousItem?.addedAt ?? now;
+
+    return {
+      ...item,
+      addedAt,
+      updatedAt: item.updatedAt ?? previousItem?.updatedAt ?? addedAt,
+    };
+  });
+};
+
+// Carries each item's price history over from the previous list, since
+// `setItems` and remote pulls hand us items without it.
+const calculatePrices = (previousItems: Item[] = [], items: Item[]) => {
+  const previous = new Map(previousItems.map(item => [item.id, item]));
+  const now = Date.now();
+
+  return items.map(item => {
+    if (typeof item.price !== "number") return item;
+
+    const previousItem = previous.get(item.id);
+    const history = item.priceHistory ?? previousItem?.priceHistory ?? [];
+    const last = history[history.length - 1];
+
+    const priceHistory =
+      last && last.price === item.price
+        ? history
+        : [...history, { price: item.price, at: now }].slice(
+            -PRICE_HISTORY_LENGTH
+          );
+
+    const priceAtAdd =
+      item.priceAtAdd ?? previousItem?.priceAtAdd ?? item.price;
+
+    const lowestPrice = Math.min(
+      item.price,
+      item.lowestPrice ?? item.price,
+      previousItem?.lowestPrice ?? item.price
+    );
+
+    return {
+      ...item,
+      priceHistory,
+      priceAtAdd,
+      lowestPrice,
+      priceDelta: item.price - priceAtAdd,
+    };
+  });
+};
+
+const calculateItemTotals = (items: Item[]) =>
+  items.map(item => ({
+    ...item,
+    itemTotal: item.price * item.quantity!,
+  }));
+
+//const calculateTotal = (items: Item[]) =>
+//items.reduce((total, item) => total + item.quantity! * item.price, 0);
+
+const calculateTotalItems = (items: Item[]) =>
+  items.reduce((sum, item) => sum + item.quantity!, 0);
+
+const calculateUniqueItems = (items: Item[]) => items.length;
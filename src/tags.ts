@@ -0,0 +1,29 @@
+import { Item, WatchlistTag } from "./types";
+
+export const normalizeTag = (tag: string) =>
+  typeof tag === "string" ? tag.trim() : "";
+
+// Tags may come from storage or an import, so anything but an array of
+// strings counts as untagged.
+export const getTags = (item: Item): string[] =>
+  Array.isArray(item.tags)
+    ? item.tags.filter((tag: unknown) => typeof tag === "string")
+    : [];
+
+export const hasTag = (item: Item, tag: string) => getTags(item).includes(tag);
+
+export const withTag = (tags: string[], tag: string) =>
+  tags.includes(tag) ? tags : [...tags, tag];
+
+// Sorted by name, so the summary does not reshuffle as items change.
+export const calculateTags = (items: Item[]): WatchlistTag[] => {
+  const counts = new Map<string, number>();
+
+  items.forEach(item =>
+    getTags(item).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1))
+  );
+
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([tag, count]) => ({ tag, count }));
+};
@@ -0,0 +1,352 @@
+import { WatchlistError } from "./errors";
+
+export interface PricePoint {
+  price: number;
+  at: number;
+}
+
+export type WatchlistTargetDirection = "below" | "above";
+
+export interface WatchlistTargetPrice {
+  price: number;
+  direction: WatchlistTargetDirection;
+  acknowledged?: boolean;
+  snoozedUntil?: number;
+}
+
+// The fields the watchlist itself relies on. Typed watchlists extend this
+// rather than `Item`, so misspelt product fields are still caught.
+export interface ItemBase {
+  id: string;
+  price: number;
+  quantity?: number;
+  itemTotal?: number;
+  priceHistory?: PricePoint[];
+  priceAtAdd?: number;
+  lowestPrice?: number;
+  priceDelta?: number;
+  addedAt?: number;
+  updatedAt?: number;
+  priority?: number;
+  pinned?: boolean;
+  tags?: string[];
+  targetPrice?: WatchlistTargetPrice;
+  expiresAt?: number;
+}
+
+export interface Item extends ItemBase {
+  [key: string]: any;
+}
+
+export interface Metadata {
+  [key: string]: any;
+}
+
+export interface WatchlistTag {
+  tag: string;
+  count: number;
+}
+
+export interface InitialState<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+> {
+  id: string;
+  items: TItem[];
+  isEmpty: boolean;
+  totalItems: number;
+  totalUniqueItems: number;
+  tags: WatchlistTag[];
+  //cartTotal: number;
+  metadata?: TMetadata;
+}
+
+export type WatchlistLimitPolicy =
+  | "reject"
+  | "oldest-added"
+  | "least-recently-updated"
+  | "lowest-priority";
+
+export interface WatchlistLimits {
+  maxItems?: number;
+  maxQuantityPerItem?: number;
+  limitPolicy?: WatchlistLimitPolicy;
+}
+
+export interface WatchlistLimitEvent<TItem extends ItemBase = Item> {
+  limit: "maxItems" | "maxQuantityPerItem";
+  policy: WatchlistLimitPolicy;
+  rejected: TItem[];
+  evicted: TItem[];
+}
+
+export interface WatchlistBatchEvent<TItem extends ItemBase = Item> {
+  added: TItem[];
+  updated: TItem[];
+  removed: TItem[];
+}
+
+export type WatchlistChangeEvent<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+> = (
+  | { type: "item:added"; item: TItem }
+  | { type: "item:updated"; prev: TItem; next: TItem }
+  | { type: "item:removed"; item: TItem }
+  | { type: "items:reordered"; items: TItem[] }
+  | { type: "watchlist:emptied"; items: TItem[] }
+  | {
+      type: "metadata:changed";
+      prev: TMetadata | undefined;
+      next: TMetadata | undefined;
+    }
+) & { state: InitialState<TItem, TMetadata> };
+
+export interface WatchlistCallbacks<TItem extends ItemBase = Item> {
+  onSetItems?: (items: TItem[]) => void;
+  onItemAdd?: (payload: TItem) => void;
+  onItemUpdate?: (payload: Partial<TItem>) => void;
+  onItemRemove?: (id: TItem["id"]) => void;
+  onPriceChange?: (item: TItem, previous: number, next: number) => void;
+  onLimitReached?: (event: WatchlistLimitEvent<TItem>) => void;
+  onItemExpire?: (item: TItem) => void;
+  onBatch?: (event: WatchlistBatchEvent<TItem>) => void;
+  onAlert?: (item: TItem) => void;
+  onChange?: (event: WatchlistChangeEvent<TItem>) => void;
+}
+
+export type WatchlistErrorCode =
+  | "MISSING_ID"
+  | "INVALID_PRICE"
+  | "INVALID_QUANTITY"
+  | "INVALID_ITEM"
+  | "INVALID_TARGET_PRICE"
+  | "ITEM_NOT_FOUND";
+
+export interface WatchlistValidation<TItem extends ItemBase = Item> {
+  // Return `false` or a message to reject the item.
+  validateItem?: (item: TItem) => boolean | string | void;
+  // Receives errors instead of them being thrown.
+  onError?: (error: WatchlistError) => void;
+}
+
+export type WatchlistResult =
+  | { ok: true }
+  | { ok: false; error: WatchlistError };
+
+export type WatchlistExportFormat = "json" | "csv" | "url";
+
+export interface WatchlistImportOptions {
+  strategy?: "replace" | "merge" | "append";
+  format?: WatchlistExportFormat;
+}
+
+export interface WatchlistImportRejection {
+  index: number;
+  row: unknown;
+  reason: string;
+}
+
+export interface WatchlistImportResult {
+  imported: number;
+  rejected: WatchlistImportRejection[];
+}
+
+export type WatchlistConflictStrategy<TItem extends ItemBase = Item> =
+  | "prefer-newest"
+  | "prefer-source"
+  | "prefer-target"
+  | "sum-quantities"
+  | ((source: TItem, target: TItem) => TItem);
+
+export interface WatchlistMergeOptions<TItem extends ItemBase = Item> {
+  onConflict?: WatchlistConflictStrategy<TItem>;
+}
+
+export interface WatchlistMergeSource<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+> {
+  items: TItem[];
+  metadata?: TMetadata;
+}
+
+export interface WatchlistMergeReport<TItem extends ItemBase = Item> {
+  added: TItem[];
+  updated: TItem[];
+  changedMetadata: string[];
+}
+
+export interface WatchlistMergeResult<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+> extends WatchlistMergeSource<TItem, TMetadata>, WatchlistMergeReport<TItem> {}
+
+export interface WatchlistActions<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+> {
+  addItem: (item: TItem, quantity?: number) => boolean;
+  removeItem: (id: TItem["id"]) => void;
+  updateItem: (id: TItem["id"], payload: Partial<TItem>) => void;
+  setItems: (items: TItem[]) => void;
+  updateItemQuantity: (id: TItem["id"], quantity: number) => void;
+  moveItem: (id: TItem["id"], toIndex: number) => void;
+  pinItem: (id: TItem["id"]) => void;
+  unpinItem: (id: TItem["id"]) => void;
+  setItemPriority: (id: TItem["id"], priority: number) => void;
+  addTag: (id: TItem["id"], tag: string) => void;
+  removeTag: (id: TItem["id"], tag: string) => void;
+  renameTag: (from: string, to: string) => void;
+  getItemsByTag: (tag: string) => TItem[];
+  removeItemsByTag: (tag: string) => void;
+  addItems: (items: TItem[]) => void;
+  removeItems: (ids: TItem["id"][]) => void;
+  updateItems: (
+    target: TItem["id"][] | ((item: TItem) => boolean),
+    payload: Partial<TItem>
+  ) => void;
+  batch: (changes: () => void) => void;
+  setTargetPrice: (
+    id: TItem["id"],
+    price: number,
+    options?: { direction?: WatchlistTargetDirection }
+  ) => void;
+  clearTargetPrice: (id: TItem["id"]) => void;
+  acknowledgeAlert: (id: TItem["id"]) => void;
+  snoozeAlert: (id: TItem["id"], duration: number) => void;
+  emptyWatchlist: () => void;
+  getItem: (id: TItem["id"]) => TItem | undefined;
+  inWatchlist: (id: TItem["id"]) => boolean;
+  checkItem: <K extends WatchlistCheckedAction>(
+    action: K,
+    ...args: Parameters<WatchlistActions<TItem, TMetadata>[K]>
+  ) => WatchlistResult;
+  clearWatchlistMetadata: () => void;
+  setWatchlistMetadata: (metadata: TMetadata) => void;
+  updateWatchlistMetadata: (metadata: Partial<TMetadata>) => void;
+  exportWatchlist: (format?: WatchlistExportFormat) => string;
+  importWatchlist: (
+    data: string,
+    options?: WatchlistImportOptions
+  ) => WatchlistImportResult;
+  mergeWatchlist: (
+    source: WatchlistMergeSource<TItem, TMetadata>,
+    options?: WatchlistMergeOptions<TItem>
+  ) => WatchlistMergeReport<TItem>;
+}
+
+// Any action can be tried out through `checkItem`.
+export type WatchlistCheckedAction = Exclude<
+  keyof WatchlistActions,
+  "checkItem"
+>;
+
+export interface WatchlistHistoryActions {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clearHistory: () => void;
+}
+
+export interface WatchlistProviderState<
+  TItem extends ItemBase = Item,
+  TMetadata = Metadata
+>
+  extends InitialState<TItem, TMetadata>,
+    WatchlistActions<TItem, TMetadata>,
+    WatchlistHistoryActions {
+  isHydrated: boolean;
+  isLoading: boolean;
+  pendingChanges: number;
+  subscribe: (
+    listener: (event: WatchlistChangeEvent<TItem, TMetadata>) => void
+  ) => () => void;
+}
+
+export type Actions =
+  | { type: "SET_ITEMS"; payload: Item[] }
+  | { type: "ADD_ITEM"; payload: Item }
+  | { type: "REMOVE_ITEM"; id: Item["id"] }
+  | { type: "MOVE_ITEM"; id: Item["id"]; toIndex: number }
+  | { type: "PIN_ITEM"; id: Item["id"] }
+  | { type: "UNPIN_ITEM"; id: Item["id"] }
+  | { type: "SET_ITEM_PRIORITY"; id: Item["id"]; priority: number }
+  | { type: "ADD_TAG"; id: Item["id"]; tag: string }
+  | { type: "REMOVE_TAG"; id: Item["id"]; tag: string }
+  | { type: "RENAME_TAG"; from: string; to: string }
+  | { type: "REMOVE_ITEMS_BY_TAG"; tag: string }
+  | { type: "BATCH"; actions: Actions[] }
+  | {
+      type: "SET_TARGET_PRICE";
+      id: Item["id"];
+      targetPrice?: WatchlistTargetPrice;
+    }
+  | { type: "ACKNOWLEDGE_ALERT"; id: Item["id"] }
+  | { type: "SNOOZE_ALERT"; id: Item["id"]; until: number }
+  | {
+      type: "UPDATE_ITEM";
+      id: Item["id"];
+      payload: Partial<Item>;
+    }
+  | { type: "EMPTY_WATCHLIST" }
+  | { type: "CLEAR_WATCHLIST_META" }
+  | { type: "SET_WATCHLIST_META"; payload: Metadata }
+  | { type: "UPDATE_WATCHLIST_META"; payload: Metadata }
+  | { type: "HYDRATE_WATCHLIST"; payload: InitialState };
+
+// Undo and redo pass through the middleware too, so they can be blocked.
+export type WatchlistMiddlewareAction =
+  | Actions
+  | { type: "UNDO" }
+  | { type: "REDO" };
+
+export interface WatchlistMiddlewareAPI {
+  getState: () => InitialState;
+  dispatch: (action: Actions) => void;
+}
+
+// Calling `next` passes the action on, possibly changed; not calling it
+// blocks the action. Whatever runs after `next` sees the updated state.
+export type WatchlistMiddleware = (
+  api: WatchlistMiddlewareAPI
+) => (
+  next: (action: WatchlistMiddlewareAction) => void
+) => (action: WatchlistMiddlewareAction) => void;
+
+export interface WatchlistActivityEntry {
+  action: WatchlistMiddlewareAction;
+  at: number;
+}
+
+export interface WatchlistStorageOptions {
+  sync?: boolean;
+  // Leave storage unread until after the first render, so the markup
+  // hydrates against the same value the server rendered.
+  ssr?: boolean;
+}
+
+export type WatchlistStorage = (
+  key: string,
+  initialValue: string,
+  options?: WatchlistStorageOptions
+) => [string, (value: Function | string) => void, boolean?];
+
+export interface WatchlistStorageAdapter {
+  getItem: (key: string) => Promise<string | null | undefined>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export interface WatchlistRemoteState {
+  items: Item[];
+  metadata?: Metadata;
+}
+
+export interface WatchlistRemote {
+  pull: () => Promise<WatchlistRemoteState>;
+  // Resolve `false` when the server rejects the change; reject the promise
+  // when it could not be reached so the change is retried.
+  push: (action: Actions, state: InitialState) => Promise<boolean | void>;
+}
@@ -1,19 +1,56 @@
 import * as React from "react";
 
+import { WatchlistStorageOptions } from "./types";
+
 export default function useLocalStorage(
   key: string,
-  initialValue: string
-): [string, (value: Function | string) => void] {
-  const [storedValue, setStoredValue] = React.useState(() => {
+  initialValue: string,
+  { sync = false, ssr = false }: WatchlistStorageOptions = {}
+): [string, (value: Function | string) => void, boolean] {
+  const initialValueRef = React.useRef(initialValue);
+  initialValueRef.current = initialValue;
+
+  const readValue = () => {
     try {
       const item =
         typeof window !== "undefined" && window.localStorage.getItem(key);
 
-      return item ? item : initialValue;
+      return item ? item : initialValueRef.current;
     } catch (error) {
-      return initialValue;
+      return initialValueRef.current;
     }
-  });
+  };
+
+  const [storedValue, setStoredValue] = React.useState(() =>
+    ssr ? initialValue : readValue()
+  );
+  const [isHydrated, setIsHydrated] = React.useState(!ssr);
+
+  // Effects never run on the server, so this first read happens on the
+  // client once hydration has finished.
+  React.useEffect(() => {
+    if (isHydrated) return;
+
+    setStoredValue(readValue());
+    setIsHydrated(true);
+  }, []);
+
+  // Another tab wrote to the same key. Re-read the key rather than trusting
+  // `event.newValue`, so concurrent writes settle on whichever landed last.
+  React.useEffect(() => {
+    if (!sync || typeof window === "undefined") return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage) return;
+      if (event.key !== null && event.key !== key) return;
+
+      setStoredValue(readValue());
+    };
+
+    window.addEventListener("storage", handleStorage);
+
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [key, sync]);
 
   const setValue = (value: Function | string) => {
     try {
@@ -28,5 +65,5 @@ export default function useLocalStorage(
     }
   };
 
-  return [storedValue, setValue];
+  return [storedValue, setValue, isHydrated];
 }
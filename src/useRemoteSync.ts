@@ -0,0 +1,149 @@
+import * as React from "react";
+
+import {
+  Actions,
+  InitialState,
+  WatchlistRemote,
+  WatchlistRemoteState,
+} from "./types";
+
+export interface OutboxEntry {
+  action: Actions;
+}
+
+interface RemoteSyncOptions {
+  isHydrated: boolean;
+  outbox: OutboxEntry[];
+  setOutbox: React.Dispatch<React.SetStateAction<OutboxEntry[]>>;
+  getState: () => InitialState;
+  reconcile: (remoteState: WatchlistRemoteState, outbox: OutboxEntry[]) => void;
+  onRemoteReject?: (action: Actions) => void;
+  retryDelay: number;
+  maxRetryDelay: number;
+}
+
+// Pulls the remote watchlist once, then pushes the outbox one action at a
+// time. Failed requests are retried with exponential backoff, and a rejected
+// change triggers a fresh pull so the local state is rebuilt from the server.
+export default function useRemoteSync(
+  remote: WatchlistRemote | undefined,
+  {
+    isHydrated,
+    outbox,
+    setOutbox,
+    getState,
+    reconcile,
+    onRemoteReject,
+    retryDelay,
+    maxRetryDelay,
+  }: RemoteSyncOptions
+) {
+  const [needsPull, setNeedsPull] = React.useState(true);
+  const [retries, setRetries] = React.useState(0);
+
+  const isBusy = React.useRef(false);
+  const isMounted = React.useRef(true);
+  const failures = React.useRef(0);
+  const retryTimer = React.useRef<ReturnType<typeof setTimeout>>();
+
+  const outboxRef = React.useRef(outbox);
+  outboxRef.current = outbox;
+
+  // Read through a ref, so new callbacks on each render do not restart a sync.
+  const optionsRef = React.useRef({
+    setOutbox,
+    getState,
+    reconcile,
+    onRemoteReject,
+    retryDelay,
+    maxRetryDelay,
+  });
+  optionsRef.current = {
+    setOutbox,
+    getState,
+    reconcile,
+    onRemoteReject,
+    retryDelay,
+    maxRetryDelay,
+  };
+
+  React.useEffect(
+    () => () => {
+      isMounted.current = false;
+      retryTimer.current && clearTimeout(retryTimer.current);
+    },
+    []
+  );
+
+  React.useEffect(() => {
+    if (!remote || typeof window === "undefined") return;
+
+    const retryNow = () => {
+      retryTimer.current && clearTimeout(retryTimer.current);
+      failures.current = 0;
+      setRetries(count => count + 1);
+    };
+
+    window.addEventListener("online", retryNow);
+
+    return () => window.removeEventListener("online", retryNow);
+  }, [remote]);
+
+  React.useEffect(() => {
+    if (!remote || !isHydrated || isBusy.current) return;
+    if (!needsPull && !outbox.length) return;
+
+    const {
+      setOutbox,
+      getState,
+      reconcile,
+      onRemoteReject,
+      retryDelay,
+      maxRetryDelay,
+    } = optionsRef.current;
+
+    const succeed = () => {
+      isBusy.current = false;
+      failures.current = 0;
+
+      return isMounted.current;
+    };
+
+    const fail = () => {
+      isBusy.current = false;
+
+      if (!isMounted.current) return;
+
+      retryTimer.current = setTimeout(
+        () => setRetries(count => count + 1),
+        Math.min(retryDelay * 2 ** failures.current++, maxRetryDelay)
+      );
+    };
+
+    isBusy.current = true;
+
+    if (needsPull) {
+      remote.pull().then(remoteState => {
+        if (!succeed()) return;
+
+        reconcile(remoteState, outboxRef.current);
+        setNeedsPull(false);
+      }, fail);
+
+      return;
+    }
+
+    const [entry] = outbox;
+
+    remote.push(entry.action, getState()).then(accepted => {
+      if (!succeed()) return;
+
+      setOutbox(current => current.filter(pending => pending !== entry));
+
+      if (accepted === false) {
+        onRemoteReject && onRemoteReject(entry.action);
+        setNeedsPull(true);
+      }
+    }, fail);
+  }, [remote, isHydrated, needsPull, outbox, retries]);
+}
@@ -0,0 +1,44 @@
+import * as React from "react";
+
+import { createWatchlistActions } from "./actions";
+import {
+  MultiWatchlistContext,
+  MultiWatchlistDispatchContext,
+  WatchlistListState,
+} from "./MultiWatchlistProvider";
+import { initialState } from "./reducer";
+import { WatchlistProviderState } from "./types";
+
+export const WatchlistContext = React.createContext<
+  WatchlistProviderState | undefined
+>(initialState);
+
+export function useWatchlist(): WatchlistProviderState;
+export function useWatchlist(listId: string): WatchlistListState;
+export function useWatchlist(listId?: string) {
+  const context = React.useContext(WatchlistContext);
+  const lists = React.useContext(MultiWatchlistContext);
+  const dispatch = React.useContext(MultiWatchlistDispatchContext);
+
+  if (listId === undefined) {
+    if (!context)
+      throw new Error("Expected to be wrapped in a WatchlistProvider");
+
+    return context;
+  }
+
+  if (!lists || !dispatch)
+    throw new Error("Expected to be wrapped in a MultiWatchlistProvider");
+
+  const list = lists.getList(listId);
+
+  if (!list) throw new Error(`No such watchlist \`${listId}\``);
+
+  return {
+    ...list,
+    ...createWatchlistActions(
+      () => list,
+      action => dispatch({ type: "LIST_ACTION", listId, action })
+    ),
+  };
+}
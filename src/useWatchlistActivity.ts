@@ -0,0 +1,23 @@
+import * as React from "react";
+
+import { WatchlistActivityEntry } from "./types";
+
+export interface WatchlistActivity {
+  entries: WatchlistActivityEntry[];
+  clearActivity: () => void;
+}
+
+export const WatchlistActivityContext = React.createContext<
+  WatchlistActivity | undefined
+>(undefined);
+
+// Kept apart from the main context, so logging an action does not re-render
+// components that only read the list.
+export const useWatchlistActivity = () => {
+  const activity = React.useContext(WatchlistActivityContext);
+
+  if (!activity)
+    throw new Error("Expected to be wrapped in a WatchlistProvider");
+
+  return activity;
+};
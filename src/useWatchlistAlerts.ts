@@ -0,0 +1,41 @@
+import * as React from "react";
+
+import { getAlerts, isSnoozed, meetsTarget } from "./alerts";
+import { Item } from "./types";
+import { MAX_TIMEOUT } from "./expiry";
+import { useWatchlist } from "./useWatchlist";
+
+export interface WatchlistAlerts {
+  alerts: Item[];
+  acknowledgeAlert: (id: Item["id"]) => void;
+  snoozeAlert: (id: Item["id"], duration: number) => void;
+}
+
+// Re-renders when the earliest snooze on a triggered target runs out, so
+// the alert shows up again without waiting for another change.
+export const useWatchlistAlerts = (): WatchlistAlerts => {
+  const { items, acknowledgeAlert, snoozeAlert } = useWatchlist();
+  const [now, setNow] = React.useState(Date.now);
+
+  const alerts = React.useMemo(() => getAlerts(items, now), [items, now]);
+
+  React.useEffect(() => {
+    const current = Date.now();
+    const next = Math.min(
+      ...items
+        .filter(item => meetsTarget(item) && isSnoozed(item, current))
+        .map(item => item.targetPrice!.snoozedUntil!)
+    );
+
+    if (next === Infinity) return;
+
+    const timer = setTimeout(
+      () => setNow(Date.now()),
+      Math.min(next - current, MAX_TIMEOUT)
+    );
+
+    return () => clearTimeout(timer);
+  }, [items, now]);
+
+  return { alerts, acknowledgeAlert, snoozeAlert };
+};
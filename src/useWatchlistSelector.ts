@@ -0,0 +1,88 @@
+import * as React from "react";
+
+import { WatchlistProviderState } from "./types";
+
+export interface WatchlistSubscription {
+  getSnapshot: () => WatchlistProviderState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const WatchlistSubscriptionContext = React.createContext<
+  WatchlistSubscription | undefined
+>(undefined);
+
+// Layout effects warn when rendered on the server, where they never run anyway.
+const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? React.useLayoutEffect : React.useEffect;
+
+export const useWatchlistSubscription = (value: WatchlistProviderState) => {
+  const snapshot = React.useRef(value);
+  const listeners = React.useRef(new Set<() => void>());
+
+  // Components rendering alongside the provider read the new value straight
+  // away; subscribers elsewhere in the tree are told once it has committed.
+  snapshot.current = value;
+
+  const subscription = React.useMemo<WatchlistSubscription>(
+    () => ({
+      getSnapshot: () => snapshot.current,
+      subscribe: listener => {
+        listeners.current.add(listener);
+
+        return () => {
+          listeners.current.delete(listener);
+        };
+      },
+    }),
+    []
+  );
+
+  useIsomorphicLayoutEffect(() => {
+    listeners.current.forEach(listener => listener());
+  }, [value]);
+
+  return subscription;
+};
+
+// Builds a selector hook for one subscription context, so typed watchlists
+// from `createWatchlist` can each read their own provider.
+export const createSelectorHook = (
+  context: React.Context<WatchlistSubscription | undefined>
+) => <T>(
+  selector: (state: WatchlistProviderState) => T,
+  equalityFn: (a: T, b: T) => boolean = Object.is
+): T => {
+  const subscription = React.useContext(context);
+
+  if (!subscription)
+    throw new Error("Expected to be wrapped in a WatchlistProvider");
+
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0);
+  const selected = selector(subscription.getSnapshot());
+
+  const latest = React.useRef({ selector, equalityFn, selected });
+
+  useIsomorphicLayoutEffect(() => {
+    latest.current = { selector, equalityFn, selected };
+  });
+
+  useIsomorphicLayoutEffect(() => {
+    const checkForUpdates = () => {
+      const { selector, equalityFn, selected } = latest.current;
+
+      if (!equalityFn(selected, selector(subscription.getSnapshot())))
+        forceRender();
+    };
+
+    // The value may have changed between rendering and subscribing.
+    checkForUpdates();
+
+    return subscription.subscribe(checkForUpdates);
+  }, [subscription]);
+
+  return selected;
+};
+
+export const useWatchlistSelector = createSelectorHook(
+  WatchlistSubscriptionContext
+);
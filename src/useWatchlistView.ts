@@ -0,0 +1,164 @@
+import * as React from "react";
+
+import { Item } from "./types";
+import { useWatchlist } from "./useWatchlist";
+
+type Direction = "asc" | "desc";
+
+export interface WatchlistViewOptions {
+  sortBy?: string | string[];
+  direction?: Direction | Direction[];
+  filter?: (item: Item) => boolean;
+  groupBy?: string | ((item: Item) => string);
+  search?: string;
+  searchFields?: string[];
+}
+
+export interface WatchlistGroup {
+  key: string;
+  items: Item[];
+  totalItems: number;
+  totalUniqueItems: number;
+}
+
+export interface WatchlistView {
+  items: Item[];
+  groups: WatchlistGroup[];
+  totalItems: number;
+  totalUniqueItems: number;
+}
+
+const toArray = <T>(value?: T | T[]) =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const compareValues = (a: any, b: any) => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+
+  return String(a).localeCompare(String(b));
+};
+
+// Without `searchFields`, only string fields are searched. Numbers would
+// bring in timestamps and totals, which match almost any digit.
+const stringFields = (item: Item) =>
+  Object.keys(item).filter(key => typeof item[key] === "string");
+
+const matchesSearch = (
+  item: Item,
+  query: string,
+  fields = stringFields(item)
+) =>
+  fields.some(field => {
+    const value = item[field];
+
+    return (
+      (typeof value === "string" || typeof value === "number") &&
+      String(value)
+        .toLowerCase()
+        .includes(query)
+    );
+  });
+
+const SEPARATOR = "\u0000";
+
+const split = (key: string) => (key ? key.split(SEPARATOR) : []);
+
+const countItems = (items: Item[]) =>
+  items.reduce((sum, item) => sum + (item.quantity || 0), 0);
+
+const createWatchlistView = (
+  items: Item[],
+  {
+    sortBy,
+    direction,
+    filter,
+    groupBy,
+    search,
+    searchFields,
+  }: WatchlistViewOptions = {}
+): WatchlistView => {
+  const query = (search || "").trim().toLowerCase();
+  const keys = toArray(sortBy);
+  const directions = toArray(direction);
+
+  const filtered = items.filter(
+    item =>
+      (!filter || filter(item)) &&
+      (!query || matchesSearch(item, query, searchFields))
+  );
+
+  // Ties fall back to the original position, so sorting stays stable.
+  const sorted = filtered
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      for (let i = 0; i < keys.length; i++) {
+        const order = compareValues(a.item[keys[i]], b.item[keys[i]]);
+
+        if (order !== 0)
+          return (directions[i] || directions[0]) === "desc" ? -order : order;
+      }
+
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+
+  const groups: WatchlistGroup[] = [];
+
+  if (groupBy) {
+    const getKey =
+      typeof groupBy === "function"
+        ? groupBy
+        : (item: Item) => String(item[groupBy] ?? "");
+
+    sorted.forEach(item => {
+      const key = getKey(item);
+      let group = groups.find(g => g.key === key);
+
+      if (!group) {
+        group = { key, items: [], totalItems: 0, totalUniqueItems: 0 };
+        groups.push(group);
+      }
+
+      group.items.push(item);
+    });
+
+    groups.forEach(group => {
+      group.totalItems = countItems(group.items);
+      group.totalUniqueItems = group.items.length;
+    });
+  }
+
+  return {
+    items: sorted,
+    groups,
+    totalItems: countItems(sorted),
+    totalUniqueItems: sorted.length,
+  };
+};
+
+// Array options are compared by value, so they can be passed inline. Pass a
+// memoized `filter` or `groupBy` function to avoid recomputing every render.
+export const useWatchlistView = (options: WatchlistViewOptions = {}) => {
+  const { items } = useWatchlist();
+  const { filter, groupBy, search } = options;
+  const sortBy = toArray(options.sortBy).join(SEPARATOR);
+  const direction = toArray(options.direction).join(SEPARATOR);
+  const searchFields =
+    options.searchFields && options.searchFields.join(SEPARATOR);
+
+  return React.useMemo(
+    () =>
+      createWatchlistView(items, {
+        sortBy: split(sortBy),
+        direction: split(direction) as Direction[],
+        filter,
+        groupBy,
+        search,
+        searchFields:
+          searchFields === undefined ? undefined : split(searchFields),
+      }),
+    [items, sortBy, direction, filter, groupBy, search, searchFields]
+  );
+};
@@ -0,0 +1,2 @@
+export const createWatchlistIdentifier = (len = 12) =>
+  [...Array(len)].map(() => (~~(Math.random() * 36)).toString(36)).join("");
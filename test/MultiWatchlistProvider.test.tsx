@@ -0,0 +1,157 @@
+import { MultiWatchlistProvider, useWatchlist, useWatchlists } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const defaultLists = [
+  { id: "favorites", name: "Favorites", items: [{ id: "test", price: 1000 }] },
+  { id: "later", name: "Buy later" },
+];
+
+const wrapper: FC<Props> = ({ children }) => (
+  <MultiWatchlistProvider id="test" defaultLists={defaultLists}>
+    {children}
+  </MultiWatchlistProvider>
+);
+
+describe("MultiWatchlistProvider", () => {
+  test("creates default lists", () => {
+    const { result } = renderHook(() => useWatchlists(), { wrapper });
+
+    expect(result.current.id).toEqual("test");
+    expect(result.current.lists).toHaveLength(2);
+    expect(result.current.getList("favorites")).toEqual(
+      expect.objectContaining({ name: "Favorites", totalItems: 1 })
+    );
+  });
+
+  test("creates, renames and deletes lists", () => {
+    const { result } = renderHook(() => useWatchlists(), { wrapper });
+
+    let listId = "";
+
+    act(() => {
+      listId = result.current.createList("Gifts");
+    });
+
+    expect(listId).toHaveLength(12);
+    expect(result.current.getList(listId)).toEqual(
+      expect.objectContaining({ name: "Gifts", isEmpty: true })
+    );
+
+    act(() => result.current.renameList(listId, "Birthday gifts"));
+
+    expect(result.current.getList(listId)?.name).toEqual("Birthday gifts");
+
+    act(() => result.current.deleteList(listId));
+
+    expect(result.current.getList(listId)).toBeUndefined();
+  });
+
+  test("throws when creating a list with an existing id", () => {
+    const { result } = renderHook(() => useWatchlists(), { wrapper });
+
+    expect(() =>
+      result.current.createList("Favorites", { id: "favorites" })
+    ).toThrow();
+  });
+
+  test("moves an item between lists", () => {
+    const { result } = renderHook(() => useWatchlists(), { wrapper });
+
+    act(() => result.current.moveItem("test", "favorites", "later"));
+
+    expect(result.current.getList("favorites")?.items).toHaveLength(0);
+    expect(result.current.getList("later")?.items).toContainEqual(
+      expect.objectContaining({ id: "test", quantity: 1 })
+    );
+  });
+
+  test("copies an item between lists", () => {
+    const { result } = renderHook(() => useWatchlists(), { wrapper });
+
+    act(() => result.current.copyItem("test", "favorites", "later"));
+    act(() => result.current.copyItem("test", "favorites", "later"));
+
+    expect(result.current.getList("favorites")?.items).toHaveLength(1);
+    expect(result.current.getList("later")?.totalItems).toBe(2);
+  });
+
+  test("persists all lists together", () => {
+    const { result } = renderHook(() => useWatchlists(), { wrapper });
+
+    act(() => {
+      result.current.createList("Gifts", { id: "gifts" });
+    });
+
+    const saved = JSON.parse(
+      window.localStorage.getItem("react-use-watchlists-test")!
+    );
+
+    expect(saved.lists.map((list: { id: string }) => list.id)).toEqual([
+      "favorites",
+      "later",
+      "gifts",
+    ]);
+  });
+
+  test("falls back to the default lists when storage is corrupt", () => {
+    const onCorruptState = jest.fn();
+
+    window.localStorage.setItem("react-use-watchlists-test", "{bad");
+
+    const { result } = renderHook(() => useWatchlists(), {
+      wrapper: ({ children }: Props) => (
+        <MultiWatchlistProvider
+          id="test"
+          defaultLists={defaultLists}
+          onCorruptState={onCorruptState}
+        >
+          {children}
+        </MultiWatchlistProvider>
+      ),
+    });
+
+    expect(result.current.lists.map(list => list.id)).toEqual([
+      "favorites",
+      "later",
+    ]);
+    expect(onCorruptState).toHaveBeenCalledWith(expect.any(Error), "{bad");
+  });
+});
+
+describe("useWatchlist with a listId", () => {
+  test("manages items of a single list", () => {
+    const { result } = renderHook(
+      () => ({ later: useWatchlist("later"), lists: useWatchlists() }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.later.addItem({ id: "test2", price: 2000 });
+    });
+    act(() => {
+      result.current.later.addItem({ id: "test2", price: 2000 });
+    });
+
+    expect(result.current.later.totalItems).toBe(2);
+    expect(result.current.later.inWatchlist("test2")).toBe(true);
+    expect(result.current.lists.getList("favorites")?.totalItems).toBe(1);
+
+    act(() => result.current.later.emptyWatchlist());
+
+    expect(result.current.later.id).toEqual("later");
+    expect(result.current.later.isEmpty).toBe(true);
+  });
+
+  test("throws for an unknown list", () => {
+    const { result } = renderHook(() => useWatchlist("unknown"), { wrapper });
+
+    expect(result.error).toBeDefined();
+  });
+});
@@ -0,0 +1,143 @@
+import { WatchlistProvider, useWatchlist, useWatchlistActivity } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+let now = 1000;
+
+beforeEach(() => {
+  now = 1000;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+const key = "react-use-watchlist-test";
+
+const renderActivity = (
+  props: Partial<React.ComponentProps<typeof WatchlistProvider>> = {}
+) => {
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test" {...props}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  return renderHook(
+    () => ({ watchlist: useWatchlist(), activity: useWatchlistActivity() }),
+    { wrapper }
+  );
+};
+
+describe("timestamps", () => {
+  test("keeps addedAt when setItems replaces an item", () => {
+    const { result } = renderActivity();
+
+    act(() => {
+      result.current.watchlist.addItem({ id: "a", price: 10 });
+    });
+
+    now = 2000;
+    act(() => result.current.watchlist.setItems([{ id: "a", price: 12 }]));
+
+    expect(result.current.watchlist.getItem("a")).toEqual(
+      expect.objectContaining({ addedAt: 1000, updatedAt: 1000 })
+    );
+
+    now = 3000;
+    act(() => result.current.watchlist.updateItemQuantity("a", 2));
+
+    expect(result.current.watchlist.getItem("a")).toEqual(
+      expect.objectContaining({ addedAt: 1000, updatedAt: 3000 })
+    );
+  });
+});
+
+describe("useWatchlistActivity", () => {
+  test("throws outside a WatchlistProvider", () => {
+    const { result } = renderHook(() => useWatchlistActivity());
+
+    expect(result.error?.message).toBe(
+      "Expected to be wrapped in a WatchlistProvider"
+    );
+  });
+
+  test("lists actions newest first with their time", () => {
+    const { result } = renderActivity();
+
+    act(() => {
+      result.current.watchlist.addItem({ id: "a", price: 10 });
+    });
+
+    now = 2000;
+    act(() => result.current.watchlist.removeItem("a"));
+
+    now = 3000;
+    act(() => result.current.watchlist.undo());
+
+    expect(result.current.activity.entries).toEqual([
+      { action: { type: "UNDO" }, at: 3000 },
+      { action: { type: "REMOVE_ITEM", id: "a" }, at: 2000 },
+      {
+        action: {
+          type: "ADD_ITEM",
+          payload: { id: "a", price: 10, quantity: 1 },
+        },
+        at: 1000,
+      },
+    ]);
+  });
+
+  test("keeps at most activityLimit entries", () => {
+    const { result } = renderActivity({ activityLimit: 2 });
+
+    act(() => result.current.watchlist.updateWatchlistMetadata({ a: 1 }));
+    act(() => result.current.watchlist.updateWatchlistMetadata({ b: 2 }));
+    act(() => result.current.watchlist.updateWatchlistMetadata({ c: 3 }));
+
+    expect(
+      result.current.activity.entries.map(({ action }) =>
+        action.type === "UPDATE_WATCHLIST_META" ? action.payload : undefined
+      )
+    ).toEqual([{ c: 3 }, { b: 2 }]);
+  });
+
+  test("clears the log", () => {
+    const { result } = renderActivity();
+
+    act(() => result.current.watchlist.emptyWatchlist());
+    act(() => result.current.activity.clearActivity());
+
+    expect(result.current.activity.entries).toEqual([]);
+  });
+
+  test("only persists the log when asked to", () => {
+    const { result } = renderActivity();
+
+    act(() => result.current.watchlist.emptyWatchlist());
+
+    expect(JSON.parse(window.localStorage.getItem(key)!)).not.toHaveProperty(
+      "activity"
+    );
+  });
+
+  test("restores a persisted log", () => {
+    const first = renderActivity({ persistActivity: true });
+
+    act(() => first.result.current.watchlist.emptyWatchlist());
+
+    first.unmount();
+
+    const { result } = renderActivity({ persistActivity: true });
+
+    expect(result.current.activity.entries).toEqual([
+      { action: { type: "EMPTY_WATCHLIST" }, at: 1000 },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { WatchlistProvider, useWatchlist, useWatchlistAlerts } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+let now = 1000;
+
+beforeEach(() => {
+  now = 1000;
+  jest.useFakeTimers();
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+const renderAlerts = () => {
+  const onAlert = jest.fn();
+
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider
+      id="test"
+      defaultItems={[
+        { id: "lamp", price: 100, quantity: 1 },
+        { id: "sofa", price: 500, quantity: 1 },
+      ]}
+      onAlert={onAlert}
+    >
+      {children}
+    </WatchlistProvider>
+  );
+
+  const { result } = renderHook(
+    () => ({ watchlist: useWatchlist(), alerts: useWatchlistAlerts() }),
+    { wrapper }
+  );
+
+  const alerting = () => result.current.alerts.alerts.map(item => item.id);
+
+  return { result, onAlert, alerting };
+};
+
+describe("target price alerts", () => {
+  test("alerts when the price drops to the target", () => {
+    const { result, onAlert, alerting } = renderAlerts();
+
+    act(() => result.current.watchlist.setTargetPrice("lamp", 80));
+
+    expect(result.current.watchlist.getItem("lamp")!.targetPrice).toEqual({
+      price: 80,
+      direction: "below",
+    });
+    expect(alerting()).toEqual([]);
+
+    act(() => result.current.watchlist.updateItem("lamp", { price: 75 }));
+
+    expect(alerting()).toEqual(["lamp"]);
+    expect(onAlert).toHaveBeenCalledTimes(1);
+    expect(onAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "lamp", price: 75 })
+    );
+
+    act(() => result.current.watchlist.updateItem("lamp", { price: 70 }));
+
+    expect(onAlert).toHaveBeenCalledTimes(1);
+  });
+
+  test("alerts when the price rises above the target", () => {
+    const { result, onAlert, alerting } = renderAlerts();
+
+    act(() =>
+      result.current.watchlist.setTargetPrice("sofa", 600, {
+        direction: "above",
+      })
+    );
+    act(() =>
+      result.current.watchlist.setItems([
+        { id: "lamp", price: 100 },
+        { id: "sofa", price: 650 },
+      ])
+    );
+
+    expect(alerting()).toEqual(["sofa"]);
+    expect(onAlert).toHaveBeenCalledTimes(1);
+  });
+
+  test("stays quiet once acknowledged until the target is crossed again", () => {
+    const { result, onAlert, alerting } = renderAlerts();
+
+    act(() => result.current.watchlist.setTargetPrice("lamp", 80));
+    act(() => result.current.watchlist.updateItem("lamp", { price: 75 }));
+    act(() => result.current.alerts.acknowledgeAlert("lamp"));
+
+    expect(alerting()).toEqual([]);
+
+    act(() => result.current.watchlist.updateItem("lamp", { price: 70 }));
+
+    expect(alerting()).toEqual([]);
+
+    act(() => result.current.watchlist.updateItem("lamp", { price: 90 }));
+    act(() => result.current.watchlist.updateItem("lamp", { price: 79 }));
+
+    expect(alerting()).toEqual(["lamp"]);
+    expect(onAlert).toHaveBeenCalledTimes(2);
+  });
+
+  test("brings a snoozed alert back when the snooze ends", () => {
+    const { result, alerting } = renderAlerts();
+
+    act(() => result.current.watchlist.setTargetPrice("lamp", 80));
+    act(() => result.current.watchlist.updateItem("lamp", { price: 75 }));
+    act(() => result.current.alerts.snoozeAlert("lamp", 1000));
+
+    expect(alerting()).toEqual([]);
+
+    act(() => {
+      now += 1000;
+      jest.advanceTimersByTime(1000);
+    });
+
+    expect(alerting()).toEqual(["lamp"]);
+  });
+
+  test("clears a target", () => {
+    const { result, alerting } = renderAlerts();
+
+    act(() => result.current.watchlist.setTargetPrice("lamp", 120));
+
+    expect(alerting()).toEqual(["lamp"]);
+
+    act(() => result.current.watchlist.clearTargetPrice("lamp"));
+
+    expect(alerting()).toEqual([]);
+    expect(() => result.current.watchlist.setTargetPrice("lamp", NaN)).toThrow(
+      "You must provide a numeric target price"
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  WatchlistMiddleware,
+  WatchlistMiddlewareAction,
+  WatchlistProvider,
+  useWatchlist,
+  useWatchlistActivity,
+} from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+const renderWatchlist = (
+  props: Partial<React.ComponentProps<typeof WatchlistProvider>> = {}
+) => {
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test" {...props}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  const { result } = renderHook(
+    () => ({ watchlist: useWatchlist(), activity: useWatchlistActivity() }),
+    { wrapper }
+  );
+
+  const ids = () => result.current.watchlist.items.map(item => item.id);
+
+  return { result, ids };
+};
+
+const items = [
+  { id: "a", price: 10 },
+  { id: "b", price: 20, quantity: 2 },
+  { id: "c", price: 30 },
+];
+
+describe("batch", () => {
+  test("adds items in one step with one write", () => {
+    const { result, ids } = renderWatchlist();
+    const setItem = jest.spyOn(Storage.prototype, "setItem");
+
+    act(() => result.current.watchlist.addItems(items));
+
+    expect(ids()).toEqual(["a", "b", "c"]);
+    expect(result.current.watchlist.totalItems).toBe(4);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(result.current.activity.entries).toHaveLength(1);
+
+    act(() => result.current.watchlist.undo());
+
+    expect(ids()).toEqual([]);
+  });
+
+  test("reports one aggregated event", () => {
+    const onBatch = jest.fn();
+    const onItemAdd = jest.fn();
+    const { result } = renderWatchlist({ onBatch, onItemAdd });
+
+    act(() => result.current.watchlist.addItems(items));
+    act(() =>
+      result.current.watchlist.batch(() => {
+        result.current.watchlist.addItem({ id: "d", price: 40 });
+        result.current.watchlist.updateItem("a", { price: 5 });
+        result.current.watchlist.removeItem("b");
+      })
+    );
+
+    expect(onItemAdd).not.toHaveBeenCalled();
+    expect(onBatch).toHaveBeenCalledTimes(2);
+    expect(onBatch).toHaveBeenLastCalledWith({
+      added: [expect.objectContaining({ id: "d" })],
+      updated: [expect.objectContaining({ id: "a", price: 5 })],
+      removed: [expect.objectContaining({ id: "b" })],
+    });
+  });
+
+  test("falls back to per-item callbacks without onBatch", () => {
+    const onItemAdd = jest.fn();
+    const onItemRemove = jest.fn();
+    const { result } = renderWatchlist({ onItemAdd, onItemRemove });
+
+    act(() => result.current.watchlist.addItems(items));
+    act(() => result.current.watchlist.removeItems(["a", "c"]));
+
+    expect(onItemAdd).toHaveBeenCalledTimes(3);
+    expect(onItemRemove.mock.calls).toEqual([["a"], ["c"]]);
+  });
+
+  test("updates items by id or predicate", () => {
+    const { result } = renderWatchlist();
+
+    act(() => result.current.watchlist.addItems(items));
+    act(() => result.current.watchlist.updateItems(["a", "b"], { sale: true }));
+    act(() =>
+      result.current.watchlist.updateItems(item => item.price > 15, {
+        price: 1,
+      })
+    );
+
+    expect(
+      result.current.watchlist.items.map(({ id, price, sale }) => ({
+        id,
+        price,
+        sale,
+      }))
+    ).toEqual([
+      { id: "a", price: 10, sale: true },
+      { id: "b", price: 1, sale: true },
+      { id: "c", price: 1, sale: undefined },
+    ]);
+  });
+
+  test("sees its own changes and passes middleware one action", () => {
+    const seen: WatchlistMiddlewareAction["type"][] = [];
+    const logger: WatchlistMiddleware = () => next => action => {
+      seen.push(action.type);
+      next(action);
+    };
+
+    const { result, ids } = renderWatchlist({ middleware: [logger] });
+
+    act(() =>
+      result.current.watchlist.batch(() => {
+        result.current.watchlist.addItem({ id: "a", price: 10 });
+        result.current.watchlist.batch(() =>
+          result.current.watchlist.updateItemQuantity("a", 3)
+        );
+
+        expect(result.current.watchlist.getItem("a")!.quantity).toBe(3);
+      })
+    );
+
+    expect(ids()).toEqual(["a"]);
+    expect(seen).toEqual(["BATCH"]);
+  });
+
+  test("discards its changes when it throws", () => {
+    const { result, ids } = renderWatchlist();
+
+    act(() => {
+      expect(() =>
+        result.current.watchlist.batch(() => {
+          result.current.watchlist.addItem({ id: "a", price: 10 });
+
+          throw new Error("Cancelled");
+        })
+      ).toThrow("Cancelled");
+    });
+
+    expect(ids()).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  WatchlistChangeEvent,
+  WatchlistProvider,
+  createWatchlistStore,
+  useWatchlist,
+} from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const renderWatchlist = () => {
+  const onChange = jest.fn((_event: WatchlistChangeEvent) => undefined);
+
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider
+      id="test"
+      defaultItems={[{ id: "lamp", price: 100, quantity: 1 }]}
+      metadata={{ currency: "EUR" }}
+      onChange={onChange}
+    >
+      {children}
+    </WatchlistProvider>
+  );
+
+  const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+  const types = () => onChange.mock.calls.map(([event]) => event.type);
+
+  return { result, onChange, types };
+};
+
+describe("change events", () => {
+  test("reports item changes with the resulting state", () => {
+    const { result, onChange, types } = renderWatchlist();
+
+    act(() => {
+      result.current.addItem({ id: "sofa", price: 500 });
+    });
+    act(() => result.current.updateItem("lamp", { price: 80 }));
+    act(() => result.current.updateItemQuantity("sofa", 0));
+
+    expect(types()).toEqual(["item:added", "item:updated", "item:removed"]);
+
+    const [[added], [updated], [removed]] = onChange.mock.calls;
+
+    expect(added).toMatchObject({ item: { id: "sofa", price: 500 } });
+    expect(added.state.items.map(item => item.id)).toEqual(["lamp", "sofa"]);
+    expect(updated).toMatchObject({
+      prev: { id: "lamp", price: 100 },
+      next: { id: "lamp", price: 80 },
+    });
+    expect(removed).toMatchObject({ item: { id: "sofa" } });
+    expect(removed.state.totalUniqueItems).toBe(1);
+  });
+
+  test("reports emptying the list and metadata changes", () => {
+    const { result, onChange, types } = renderWatchlist();
+
+    act(() => result.current.updateWatchlistMetadata({ note: "gifts" }));
+    act(() => result.current.clearWatchlistMetadata());
+    act(() => result.current.emptyWatchlist());
+
+    expect(types()).toEqual([
+      "metadata:changed",
+      "metadata:changed",
+      "watchlist:emptied",
+    ]);
+    expect(onChange.mock.calls[0][0]).toMatchObject({
+      prev: { currency: "EUR" },
+      next: { currency: "EUR", note: "gifts" },
+    });
+    expect(onChange.mock.calls[2][0]).toMatchObject({
+      items: [{ id: "lamp" }],
+      state: { items: [] },
+    });
+  });
+
+  test("reports undo and skips changes that do nothing", () => {
+    const { result, types } = renderWatchlist();
+
+    act(() => result.current.moveItem("lamp", 0));
+    act(() => result.current.updateWatchlistMetadata({}));
+
+    expect(types()).toEqual([]);
+
+    act(() => result.current.removeItem("lamp"));
+    act(() => result.current.undo());
+
+    expect(types()).toEqual(["item:removed", "item:added"]);
+  });
+
+  test("reports reordering", () => {
+    const { result, onChange, types } = renderWatchlist();
+
+    act(() => {
+      result.current.addItem({ id: "sofa", price: 300 });
+    });
+    onChange.mockClear();
+
+    act(() => result.current.moveItem("sofa", 0));
+
+    expect(types()).toEqual(["items:reordered"]);
+    expect(onChange.mock.calls[0][0]).toMatchObject({
+      items: [{ id: "sofa" }, { id: "lamp" }],
+    });
+
+    act(() => result.current.removeItem("lamp"));
+
+    expect(types()).toEqual(["items:reordered", "item:removed"]);
+  });
+
+  test("notifies subscribers until they unsubscribe", () => {
+    const { result } = renderWatchlist();
+    const listener = jest.fn();
+
+    let unsubscribe = () => {};
+
+    act(() => {
+      unsubscribe = result.current.subscribe(listener);
+    });
+    act(() => result.current.removeItem("lamp"));
+    act(() => unsubscribe());
+    act(() => result.current.setItems([{ id: "rug", price: 20 }]));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "item:removed" })
+    );
+  });
+
+  test("emits from the store", () => {
+    const store = createWatchlistStore();
+    const listener = jest.fn();
+
+    store.subscribeToChanges(listener);
+    store.batch(() => {
+      store.addItem({ id: "a", price: 10 });
+      store.addItem({ id: "b", price: 20 });
+    });
+
+    expect(listener.mock.calls.map(([event]) => event.item.id)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  WatchlistProvider,
+  WatchlistStorageAdapter,
+  useWatchlist,
+} from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+const key = "react-use-watchlist-test";
+
+const createAdapter = (values: { [key: string]: string } = {}) => {
+  let resolveLoad = () => {};
+
+  const loaded = new Promise<void>(resolve => {
+    resolveLoad = resolve;
+  });
+
+  const adapter: WatchlistStorageAdapter = {
+    getItem: async key => {
+      await loaded;
+
+      return values[key];
+    },
+    setItem: async (key, value) => {
+      values[key] = value;
+    },
+    removeItem: async key => {
+      delete values[key];
+    },
+  };
+
+  return { adapter, values, resolveLoad };
+};
+
+const stored = {
+  id: "test",
+  items: [{ id: "test", price: 1000, quantity: 1, itemTotal: 1000 }],
+  isEmpty: false,
+  totalItems: 1,
+  totalUniqueItems: 1,
+  metadata: {},
+};
+
+describe("async storage", () => {
+  test("reports loading until the adapter resolves", async () => {
+    const { adapter, resolveLoad } = createAdapter({
+      [key]: JSON.stringify(stored),
+    });
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" storage={adapter}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.isHydrated).toBe(false);
+    expect(result.current.items).toHaveLength(0);
+
+    resolveLoad();
+
+    await waitFor(() => result.current.isHydrated);
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.items).toHaveLength(1);
+  });
+
+  test("replays mutations made before hydration", async () => {
+    const { adapter, values, resolveLoad } = createAdapter({
+      [key]: JSON.stringify(stored),
+    });
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" storage={adapter}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => {
+      result.current.addItem({ id: "test2", price: 2000 });
+    });
+
+    expect(values[key]).toEqual(JSON.stringify(stored));
+
+    resolveLoad();
+
+    await waitFor(() => result.current.isHydrated);
+
+    expect(result.current.items).toHaveLength(2);
+    expect(result.current.totalItems).toBe(3);
+    expect(JSON.parse(values[key]).totalItems).toBe(3);
+  });
+
+  test("adds to the loaded quantity when an item is added twice early", async () => {
+    const { adapter, resolveLoad } = createAdapter({
+      [key]: JSON.stringify({
+        ...stored,
+        items: [{ id: "test", price: 1000, quantity: 2 }],
+      }),
+    });
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" storage={adapter}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    expect(result.current.getItem("test")!.quantity).toBe(2);
+
+    resolveLoad();
+
+    await waitFor(() => result.current.isHydrated);
+
+    expect(result.current.getItem("test")!.quantity).toBe(4);
+  });
+
+  test("keeps defaults when nothing is stored", async () => {
+    const { adapter, resolveLoad } = createAdapter();
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        id="test"
+        storage={adapter}
+        defaultItems={[{ id: "test", price: 1000, quantity: 1 }]}
+      >
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), { wrapper });
+
+    resolveLoad();
+
+    await waitFor(() => result.current.isHydrated);
+
+    expect(result.current.items).toHaveLength(1);
+  });
+});
@@ -0,0 +1,148 @@
+import { createWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+interface Product {
+  id: string;
+  price: number;
+  quantity?: number;
+  name: string;
+  brand?: string;
+}
+
+interface ProductMetadata {
+  title: string;
+  shared?: boolean;
+}
+
+const {
+  WatchlistProvider,
+  useWatchlist,
+  useWatchlistSelector,
+} = createWatchlist<Product, ProductMetadata>();
+
+describe("createWatchlist", () => {
+  test("returns a typed provider and hooks", () => {
+    const onItemAdd = jest.fn((item: Product) => item.name);
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        defaultItems={[{ id: "a", price: 10, quantity: 1, name: "Lamp" }]}
+        metadata={{ title: "Wishlist" }}
+        onItemAdd={onItemAdd}
+      >
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        watchlist: useWatchlist(),
+        names: useWatchlistSelector(
+          state => state.items.map(item => item.name),
+          (a, b) => a.join() === b.join()
+        ),
+      }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.watchlist.addItem({ id: "b", price: 20, name: "Chair" });
+    });
+    act(() => result.current.watchlist.updateItem("b", { brand: "Acme" }));
+    act(() =>
+      result.current.watchlist.updateWatchlistMetadata({ shared: true })
+    );
+
+    const item: Product | undefined = result.current.watchlist.getItem("b");
+
+    expect(item).toEqual(
+      expect.objectContaining({ name: "Chair", brand: "Acme" })
+    );
+    expect(result.current.names).toEqual(["Lamp", "Chair"]);
+    expect(result.current.watchlist.metadata).toEqual({
+      title: "Wishlist",
+      shared: true,
+    });
+    expect(onItemAdd).toHaveReturnedWith("Chair");
+  });
+
+  test("keeps nested typed watchlists apart", () => {
+    interface Ticket {
+      id: string;
+      price: number;
+      seat: string;
+    }
+
+    const tickets = createWatchlist<Ticket>();
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        id="products"
+        defaultItems={[{ id: "a", price: 10, name: "Lamp" }]}
+      >
+        <tickets.WatchlistProvider
+          id="tickets"
+          defaultItems={[{ id: "t", price: 50, seat: "A1" }]}
+        >
+          {children}
+        </tickets.WatchlistProvider>
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        products: useWatchlist(),
+        tickets: tickets.useWatchlist(),
+        seats: tickets.useWatchlistSelector(state =>
+          state.items.map(item => item.seat).join()
+        ),
+      }),
+      { wrapper }
+    );
+
+    expect(result.current.products.items.map(item => item.name)).toEqual([
+      "Lamp",
+    ]);
+    expect(result.current.tickets.items.map(item => item.seat)).toEqual(["A1"]);
+    expect(result.current.seats).toBe("A1");
+  });
+
+  test("throws outside its own provider", () => {
+    const tickets = createWatchlist();
+
+    const { result } = renderHook(() => tickets.useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    expect(result.error).toEqual(
+      Error("Expected to be wrapped in a WatchlistProvider")
+    );
+  });
+
+  test("rejects fields that are not part of the item type", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      // @ts-expect-error `name` is required on new items
+      result.current.addItem({ id: "c", price: 5 });
+    });
+
+    // @ts-expect-error `colour` is not a Product field
+    act(() => result.current.updateItem("c", { colour: "red" }));
+
+    // @ts-expect-error getItem may return undefined
+    const name = result.current.getItem("c").name;
+
+    expect(name).toBeUndefined();
+    expect(result.current.inWatchlist("c")).toBe(true);
+  });
+});
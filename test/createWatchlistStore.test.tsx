@@ -0,0 +1,194 @@
+import { WatchlistStorageAdapter, createWatchlistStore } from "../src";
+
+const createMemoryStorage = (initial: Record<string, string> = {}) => {
+  const values = { ...initial };
+
+  const storage: WatchlistStorageAdapter = {
+    getItem: jest.fn(async (key: string) => values[key]),
+    setItem: jest.fn(async (key: string, value: string) => {
+      values[key] = value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      delete values[key];
+    }),
+  };
+
+  return { storage, values };
+};
+
+describe("createWatchlistStore", () => {
+  test("applies actions and notifies subscribers", () => {
+    const onItemAdd = jest.fn();
+    const store = createWatchlistStore({ onItemAdd });
+    const listener = jest.fn();
+
+    const unsubscribe = store.subscribe(listener);
+
+    store.addItem({ id: "a", price: 10 }, 2);
+    store.updateWatchlistMetadata({ note: "gifts" });
+
+    expect(store.getState()).toEqual(
+      expect.objectContaining({
+        totalItems: 2,
+        totalUniqueItems: 1,
+        metadata: { note: "gifts" },
+      })
+    );
+    expect(onItemAdd).toHaveBeenCalledWith({ id: "a", price: 10, quantity: 2 });
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    store.removeItem("a");
+
+    expect(store.getState().items).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test("starts from defaultItems and undoes changes", () => {
+    const store = createWatchlistStore({
+      id: "test",
+      defaultItems: [{ id: "a", price: 10, quantity: 1 }],
+    });
+
+    store.emptyWatchlist();
+    store.undo();
+
+    expect(store.getState().id).toBe("test");
+    expect(store.inWatchlist("a")).toBe(true);
+    expect(store.getActivity().map(({ action }) => action.type)).toEqual([
+      "EMPTY_WATCHLIST",
+      "UNDO",
+    ]);
+  });
+
+  test("runs middleware", () => {
+    const store = createWatchlistStore({
+      middleware: [
+        () => next => action => {
+          if (action.type !== "EMPTY_WATCHLIST") next(action);
+        },
+      ],
+    });
+
+    store.addItem({ id: "a", price: 10 });
+
+    expect(store.dispatch({ type: "EMPTY_WATCHLIST" })).toBe(false);
+    expect(store.getState().items).toHaveLength(1);
+  });
+
+  test("loads from a storage adapter and replays earlier actions", async () => {
+    const { storage, values } = createMemoryStorage({
+      "react-use-watchlist-test": JSON.stringify({
+        id: "test",
+        items: [{ id: "saved", price: 10, quantity: 1 }],
+      }),
+    });
+
+    const store = createWatchlistStore({ id: "test", storage });
+
+    store.addItem({ id: "early", price: 10 });
+
+    expect(store.isHydrated()).toBe(false);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(store.isHydrated()).toBe(true);
+    expect(store.getState().items.map(item => item.id)).toEqual([
+      "saved",
+      "early",
+    ]);
+
+    store.removeItem("saved");
+
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(
+      JSON.parse(values["react-use-watchlist-test"]).items.map(
+        (item: { id: string }) => item.id
+      )
+    ).toEqual(["early"]);
+  });
+
+  test("evicts from the loaded list when replaying early adds", async () => {
+    const { storage } = createMemoryStorage({
+      "react-use-watchlist-test": JSON.stringify({
+        id: "test",
+        items: [
+          { id: "old", price: 10, quantity: 1, addedAt: 1 },
+          { id: "new", price: 10, quantity: 1, addedAt: 2 },
+        ],
+      }),
+    });
+    const onItemAdd = jest.fn();
+
+    const store = createWatchlistStore({
+      id: "test",
+      storage,
+      maxItems: 2,
+      limitPolicy: "oldest-added",
+      onItemAdd,
+    });
+
+    store.addItem({ id: "early", price: 10 });
+
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(store.getState().items.map(item => item.id)).toEqual([
+      "new",
+      "early",
+    ]);
+    expect(onItemAdd).toHaveBeenCalledTimes(1);
+  });
+
+  test("expires items without React", () => {
+    let now = 1000;
+
+    jest.useFakeTimers();
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+
+    try {
+      const onItemExpire = jest.fn();
+      const store = createWatchlistStore({
+        defaultItems: [
+          { id: "stale", price: 10, quantity: 1, expiresAt: 0 },
+          { id: "deal", price: 10, quantity: 2, expiresAt: Date.now() + 1000 },
+          { id: "lamp", price: 10, quantity: 1 },
+        ],
+        onItemExpire,
+      });
+
+      expect(store.getState().items.map(item => item.id)).toEqual([
+        "deal",
+        "lamp",
+      ]);
+
+      now += 1000;
+      jest.advanceTimersByTime(1000);
+
+      expect(store.getState().items.map(item => item.id)).toEqual(["lamp"]);
+      expect(store.getState().totalItems).toBe(1);
+      expect(onItemExpire.mock.calls.map(([item]) => item.id)).toEqual([
+        "stale",
+        "deal",
+      ]);
+
+      store.destroy();
+    } finally {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    }
+  });
+
+  test("picks up new options", () => {
+    const store = createWatchlistStore({ maxItems: 1 });
+
+    store.addItem({ id: "a", price: 10 });
+
+    expect(store.addItem({ id: "b", price: 10 })).toBe(false);
+
+    store.setOptions({ maxItems: 2 });
+
+    expect(store.addItem({ id: "b", price: 10 })).toBe(true);
+  });
+});
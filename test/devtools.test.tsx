@@ -0,0 +1,144 @@
+import { WatchlistProvider, createWatchlistStore, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+const createExtension = () => {
+  let listener: (message: any) => void = () => undefined;
+
+  const connection = {
+    init: jest.fn(),
+    send: jest.fn(),
+    subscribe: jest.fn(nextListener => {
+      listener = nextListener;
+
+      return unsubscribe;
+    }),
+  };
+  const unsubscribe = jest.fn();
+  const extension = { connect: jest.fn(() => connection) };
+
+  (window as any).__REDUX_DEVTOOLS_EXTENSION__ = extension;
+
+  return {
+    extension,
+    connection,
+    unsubscribe,
+    message: (message: any) => listener(message),
+  };
+};
+
+const renderWatchlist = (devtools: boolean = true) => {
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test" devtools={devtools}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  return renderHook(() => useWatchlist(), { wrapper });
+};
+
+afterEach(() => {
+  delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+  window.localStorage.clear();
+});
+
+describe("devtools", () => {
+  test("reports each action with the resulting state", () => {
+    const { extension, connection } = createExtension();
+    const { result } = renderWatchlist();
+
+    expect(extension.connect).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "react-use-watchlist-test" })
+    );
+    expect(connection.init).toHaveBeenCalledWith(
+      expect.objectContaining({ items: [] })
+    );
+
+    act(() => {
+      result.current.addItem({ id: "a", price: 10 });
+    });
+    act(() => result.current.undo());
+
+    expect(connection.send.mock.calls).toEqual([
+      [
+        { type: "ADD_ITEM", payload: expect.objectContaining({ id: "a" }) },
+        expect.objectContaining({
+          items: [expect.objectContaining({ id: "a" })],
+        }),
+      ],
+      [{ type: "UNDO" }, expect.objectContaining({ items: [] })],
+    ]);
+  });
+
+  test("jumps to a state picked in the monitor", () => {
+    const { connection, message } = createExtension();
+    const { result } = renderWatchlist();
+
+    act(() => {
+      result.current.addItem({ id: "a", price: 10 });
+    });
+
+    const jumpTo = connection.send.mock.calls[0][1];
+
+    act(() => {
+      result.current.addItem({ id: "b", price: 20 });
+    });
+    act(() =>
+      message({
+        type: "DISPATCH",
+        payload: { type: "JUMP_TO_STATE" },
+        state: JSON.stringify(jumpTo),
+      })
+    );
+
+    expect(result.current.items.map(item => item.id)).toEqual(["a"]);
+    expect(connection.send).toHaveBeenCalledTimes(2);
+  });
+
+  test("imports a history exported from the monitor", () => {
+    const { connection, message } = createExtension();
+    const { result } = renderWatchlist();
+    const state = {
+      ...connection.init.mock.calls[0][0],
+      items: [{ id: "c", price: 30, quantity: 1 }],
+    };
+    const nextLiftedState = { computedStates: [{ state }] };
+
+    act(() =>
+      message({
+        type: "DISPATCH",
+        payload: { type: "IMPORT_STATE", nextLiftedState },
+      })
+    );
+
+    expect(result.current.items.map(item => item.id)).toEqual(["c"]);
+    expect(connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+  });
+
+  test("disconnects on unmount", () => {
+    const { unsubscribe } = createExtension();
+    const { unmount } = renderWatchlist();
+
+    unmount();
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  test("stays off unless asked for or when the extension is missing", () => {
+    const { extension } = createExtension();
+
+    renderWatchlist(false);
+
+    expect(extension.connect).not.toHaveBeenCalled();
+
+    delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+
+    const store = createWatchlistStore({ devtools: { name: "cart" } });
+
+    expect(store.dispatch({ type: "EMPTY_WATCHLIST" })).toBe(true);
+  });
+});
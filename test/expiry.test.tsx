@@ -0,0 +1,166 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+let now = 1000;
+
+const advance = (ms: number) =>
+  act(() => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+  });
+
+beforeEach(() => {
+  now = 1000;
+  jest.useFakeTimers();
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+const renderWatchlist = (
+  props: Partial<React.ComponentProps<typeof WatchlistProvider>> = {}
+) => {
+  const onItemExpire = jest.fn();
+
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test" onItemExpire={onItemExpire} {...props}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+  return { result, onItemExpire };
+};
+
+describe("expiry", () => {
+  test("removes an item when its expiresAt passes", () => {
+    const { result, onItemExpire } = renderWatchlist();
+
+    act(() => {
+      result.current.addItem({ id: "deal", price: 10, expiresAt: 1500 });
+      result.current.addItem({ id: "lamp", price: 10 });
+    });
+
+    advance(499);
+
+    expect(result.current.inWatchlist("deal")).toBe(true);
+
+    advance(1);
+
+    expect(result.current.inWatchlist("deal")).toBe(false);
+    expect(result.current.inWatchlist("lamp")).toBe(true);
+    expect(onItemExpire).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "deal" })
+    );
+  });
+
+  test("expires items a ttl after they were added", () => {
+    const { result } = renderWatchlist({ ttl: 1000 });
+
+    act(() => {
+      result.current.addItem({ id: "a", price: 10 });
+    });
+
+    advance(600);
+
+    act(() => {
+      result.current.addItem({ id: "b", price: 10 });
+    });
+
+    advance(400);
+
+    expect(result.current.items.map(item => item.id)).toEqual(["b"]);
+
+    advance(600);
+
+    expect(result.current.items).toEqual([]);
+  });
+
+  test("keeps expired items out of undo and redo", () => {
+    const { result } = renderWatchlist();
+
+    act(() => {
+      result.current.addItem({ id: "lamp", price: 10 });
+      result.current.addItem({ id: "deal", price: 10, expiresAt: 1500 });
+      result.current.updateItemQuantity("lamp", 2);
+    });
+
+    advance(500);
+
+    expect(result.current.items.map(item => item.id)).toEqual(["lamp"]);
+
+    act(() => result.current.undo());
+
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "lamp", quantity: 1 }),
+    ]);
+
+    act(() => result.current.undo());
+
+    expect(result.current.items).toEqual([]);
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.redo();
+      result.current.redo();
+    });
+
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "lamp", quantity: 2 }),
+    ]);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  test("purges expired items when the stored list loads", () => {
+    window.localStorage.setItem(
+      "react-use-watchlist-test",
+      JSON.stringify({
+        id: "test",
+        items: [
+          { id: "old", price: 10, quantity: 1, expiresAt: 500 },
+          { id: "new", price: 10, quantity: 2, expiresAt: 5000 },
+        ],
+      })
+    );
+
+    const { result, onItemExpire } = renderWatchlist();
+
+    expect(result.current.items.map(item => item.id)).toEqual(["new"]);
+    expect(onItemExpire).toHaveBeenCalledTimes(1);
+  });
+
+  test("leaves expired items out of the totals before the purge", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: ({ children }) => (
+        <WatchlistProvider
+          defaultItems={[
+            { id: "old", price: 10, quantity: 3, expiresAt: 500 },
+            { id: "new", price: 10, quantity: 2 },
+          ]}
+          ssr
+        >
+          {children}
+        </WatchlistProvider>
+      ),
+    });
+
+    expect(result.all[0]).toEqual(
+      expect.objectContaining({
+        isHydrated: false,
+        totalItems: 2,
+        totalUniqueItems: 1,
+      })
+    );
+    expect(result.current.items).toHaveLength(1);
+  });
+});
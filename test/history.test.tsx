@@ -0,0 +1,149 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const key = "react-use-watchlist-test";
+
+describe("history", () => {
+  test("undoes and redoes item changes", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => result.current.removeItem("test"));
+
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => result.current.undo());
+
+    expect(result.current.inWatchlist("test")).toBe(true);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+
+    expect(result.current.isEmpty).toBe(true);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  test("restores an emptied watchlist", () => {
+    const items = [
+      { id: "test", price: 1000 },
+      { id: "test2", price: 2000 },
+    ];
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider defaultItems={items}>{children}</WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => result.current.emptyWatchlist());
+    act(() => result.current.undo());
+
+    expect(result.current.items).toHaveLength(2);
+  });
+
+  test("undoes metadata changes", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => result.current.setWatchlistMetadata({ notes: "first" }));
+    act(() => result.current.updateWatchlistMetadata({ notes: "second" }));
+    act(() => result.current.undo());
+
+    expect(result.current.metadata).toEqual({ notes: "first" });
+  });
+
+  test("keeps at most historyDepth snapshots", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider historyDepth={2}>{children}</WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => {
+      result.current.addItem({ id: "test2", price: 1000 });
+    });
+    act(() => {
+      result.current.addItem({ id: "test3", price: 1000 });
+    });
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.items).toHaveLength(1);
+  });
+
+  test("clears history", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => result.current.clearHistory());
+
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.items).toHaveLength(1);
+  });
+
+  test("persists history alongside the list when enabled", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" persistHistory>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result, unmount } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    expect(
+      JSON.parse(window.localStorage.getItem(key)!).history.past
+    ).toHaveLength(1);
+
+    unmount();
+
+    const { result: restored } = renderHook(() => useWatchlist(), {
+      wrapper,
+    });
+
+    act(() => restored.current.undo());
+
+    expect(restored.current.isEmpty).toBe(true);
+  });
+
+  test("does not persist history by default", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test">{children}</WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    expect(
+      JSON.parse(window.localStorage.getItem(key)!).history
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,389 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const items = [
+  { id: "a", price: 10, quantity: 2, name: 'Lamp, "large"' },
+  { id: "b", price: 20, quantity: 1, name: "Café table" },
+];
+
+const createWrapper = (
+  props: Partial<React.ComponentProps<typeof WatchlistProvider>> = {}
+): FC<Props> => ({ children }) => (
+  <WatchlistProvider
+    defaultItems={items}
+    metadata={{ title: "Mine" }}
+    {...props}
+  >
+    {children}
+  </WatchlistProvider>
+);
+
+const renderWatchlist = (
+  props?: Partial<React.ComponentProps<typeof WatchlistProvider>>
+) => renderHook(() => useWatchlist(), { wrapper: createWrapper(props) });
+
+describe("exportWatchlist", () => {
+  test("exports items and metadata as JSON without derived fields", () => {
+    const { result } = renderWatchlist();
+
+    act(() => result.current.updateItem("a", { price: 15 }));
+
+    expect(JSON.parse(result.current.exportWatchlist())).toEqual({
+      items: [{ ...items[0], price: 15 }, items[1]],
+      metadata: { title: "Mine" },
+    });
+  });
+
+  test("exports CSV with quoted cells", () => {
+    const { result } = renderWatchlist();
+
+    expect(result.current.exportWatchlist("csv")).toBe(
+      [
+        "id,price,quantity,name",
+        'a,10,2,"Lamp, ""large"""',
+        "b,20,1,Café table",
+      ].join("\n")
+    );
+  });
+
+  test("exports a URL-safe string", () => {
+    const { result } = renderWatchlist();
+
+    expect(result.current.exportWatchlist("url")).toMatch(/^[\w-]+$/);
+  });
+
+  test("encodes URLs without btoa and atob", () => {
+    const { result } = renderWatchlist();
+    const encoded = result.current.exportWatchlist("url");
+    const { btoa, atob } = window;
+
+    Object.defineProperty(window, "btoa", { value: undefined });
+    Object.defineProperty(window, "atob", { value: undefined });
+
+    try {
+      expect(result.current.exportWatchlist("url")).toBe(encoded);
+
+      act(() => {
+        expect(result.current.importWatchlist(encoded).imported).toBe(2);
+      });
+    } finally {
+      Object.defineProperty(window, "btoa", { value: btoa });
+      Object.defineProperty(window, "atob", { value: atob });
+    }
+  });
+
+  test("escapes cells a spreadsheet would run as formulas", () => {
+    const formulas = [
+      { id: "a", price: -5, quantity: 1, name: "=HYPERLINK()" },
+      { id: "b", price: 1, quantity: 1, name: "@SUM(A1)" },
+      { id: "c", price: 1, quantity: 1, name: "'quoted" },
+    ];
+    const { result: source } = renderWatchlist({ defaultItems: formulas });
+    const { result } = renderWatchlist({ id: "target", defaultItems: [] });
+
+    const data = source.current.exportWatchlist("csv");
+
+    expect(data.split("\n").slice(1)).toEqual([
+      "a,-5,1,'=HYPERLINK()",
+      "b,1,1,'@SUM(A1)",
+      "c,1,1,''quoted",
+    ]);
+
+    act(() => {
+      result.current.importWatchlist(data);
+    });
+
+    expect(result.current.items.map(item => item.name)).toEqual(
+      formulas.map(item => item.name)
+    );
+  });
+});
+
+describe("importWatchlist", () => {
+  test.each(["json", "csv", "url"] as const)(
+    "round-trips a %s export",
+    format => {
+      const { result: source } = renderWatchlist();
+      const { result } = renderWatchlist({
+        id: "target",
+        defaultItems: [],
+        metadata: {},
+      });
+
+      const data = source.current.exportWatchlist(format);
+
+      act(() => {
+        expect(result.current.importWatchlist(data)).toEqual({
+          imported: 2,
+          rejected: [],
+        });
+      });
+
+      expect(result.current.items).toEqual([
+        expect.objectContaining(items[0]),
+        expect.objectContaining(items[1]),
+      ]);
+
+      if (format !== "csv")
+        expect(result.current.metadata).toEqual({ title: "Mine" });
+    }
+  );
+
+  test("reports rejected rows and imports the rest", () => {
+    const { result } = renderWatchlist();
+
+    const data = JSON.stringify([
+      { id: "c", price: 30 },
+      { price: 40 },
+      { id: "d", price: "free" },
+      { id: "c", price: 50 },
+      { id: "e", price: 5, quantity: -1 },
+    ]);
+
+    let report: ReturnType<typeof result.current.importWatchlist>;
+
+    act(() => {
+      report = result.current.importWatchlist(data);
+    });
+
+    expect(report!.imported).toBe(1);
+    expect(
+      report!.rejected.map(({ index, reason }) => [index, reason])
+    ).toEqual([
+      [1, "Missing `id`"],
+      [2, "Invalid `price`"],
+      [3, "Duplicate `id`"],
+      [4, "Invalid `quantity`"],
+    ]);
+    expect(result.current.items.map(item => item.id)).toEqual(["c"]);
+  });
+
+  test("reports rows the watchlist did not accept", () => {
+    const { result } = renderWatchlist({
+      id: "target",
+      defaultItems: [],
+      maxItems: 1,
+    });
+
+    const data = JSON.stringify([
+      { id: "a", price: 10 },
+      { id: "b", price: 20 },
+    ]);
+
+    let report: ReturnType<typeof result.current.importWatchlist>;
+
+    act(() => {
+      report = result.current.importWatchlist(data);
+    });
+
+    expect(report!).toEqual({
+      imported: 1,
+      rejected: [
+        {
+          index: 1,
+          row: expect.objectContaining({ id: "b" }),
+          reason: "Not accepted by the watchlist",
+        },
+      ],
+    });
+    expect(result.current.items.map(item => item.id)).toEqual(["a"]);
+  });
+
+  test("reports rows the validator refuses and imports the rest", () => {
+    const { result } = renderWatchlist({
+      id: "target",
+      defaultItems: [],
+      validateItem: item => item.price < 100 || "Too expensive",
+    });
+
+    const data = JSON.stringify([
+      { id: "a", price: 10 },
+      { id: "b", price: 200 },
+      { id: "c", price: 30 },
+    ]);
+
+    act(() => {
+      expect(result.current.importWatchlist(data)).toEqual({
+        imported: 2,
+        rejected: [
+          {
+            index: 1,
+            row: expect.objectContaining({ id: "b" }),
+            reason: "Too expensive",
+          },
+        ],
+      });
+    });
+
+    expect(result.current.items.map(item => item.id)).toEqual(["a", "c"]);
+  });
+
+  test("keeps tags through a CSV export", () => {
+    const { result: source } = renderWatchlist({
+      defaultItems: [{ id: "a", price: 10, tags: ["gift", "maybe"] }],
+    });
+    const { result } = renderWatchlist({ id: "target", defaultItems: [] });
+
+    const data = source.current.exportWatchlist("csv");
+
+    act(() => {
+      result.current.importWatchlist(data);
+    });
+
+    expect(result.current.getItem("a")!.tags).toEqual(["gift", "maybe"]);
+
+    act(() => {
+      expect(
+        result.current.importWatchlist("id,price,tags\nb,10,gift")
+      ).toEqual({
+        imported: 0,
+        rejected: [expect.objectContaining({ reason: "Invalid `tags`" })],
+      });
+    });
+  });
+
+  test("keeps targets through a CSV export", () => {
+    const targetPrice = { price: 8, direction: "below" as const };
+    const { result: source } = renderWatchlist({
+      defaultItems: [{ id: "a", price: 10, targetPrice }],
+    });
+    const { result } = renderWatchlist({ id: "target", defaultItems: [] });
+
+    const data = source.current.exportWatchlist("csv");
+
+    act(() => {
+      result.current.importWatchlist(data);
+    });
+
+    expect(result.current.getItem("a")!.targetPrice).toEqual(targetPrice);
+
+    act(() => {
+      expect(
+        result.current.importWatchlist("id,price,targetPrice\nb,10,8")
+      ).toEqual({
+        imported: 0,
+        rejected: [
+          expect.objectContaining({ reason: "Invalid `targetPrice`" }),
+        ],
+      });
+    });
+  });
+
+  test("keeps pins, priorities and expiry through a CSV export", () => {
+    const { result: source } = renderWatchlist({
+      defaultItems: [
+        {
+          id: "a",
+          price: 10,
+          pinned: false,
+          priority: 2,
+          expiresAt: 4102444800000,
+        },
+        { id: "b", price: 20, pinned: true },
+      ],
+    });
+    const { result } = renderWatchlist({ id: "target", defaultItems: [] });
+
+    const data = source.current.exportWatchlist("csv");
+
+    act(() => {
+      result.current.importWatchlist(data);
+    });
+
+    expect(result.current.getItem("a")).toMatchObject({
+      pinned: false,
+      priority: 2,
+      expiresAt: 4102444800000,
+    });
+    expect(result.current.getItem("b")!.pinned).toBe(true);
+
+    act(() => {
+      expect(
+        result.current.importWatchlist(
+          "id,price,pinned,priority\nc,10,yes,1\nd,10,false,high"
+        )
+      ).toEqual({
+        imported: 0,
+        rejected: [
+          expect.objectContaining({ index: 0, reason: "Invalid `pinned`" }),
+          expect.objectContaining({ index: 1, reason: "Invalid `priority`" }),
+        ],
+      });
+    });
+  });
+
+  test("throws on data it cannot read", () => {
+    const { result } = renderWatchlist();
+
+    expect(() => result.current.importWatchlist("{not json")).toThrow(
+      "Cannot read the imported watchlist"
+    );
+    expect(() => result.current.importWatchlist("name,price\nx,1")).toThrow(
+      "Missing `id` column"
+    );
+  });
+
+  test("merges items by id and keeps the rest", () => {
+    const { result } = renderWatchlist();
+
+    act(() => {
+      result.current.importWatchlist(
+        JSON.stringify({
+          items: [
+            { id: "b", price: 25 },
+            { id: "c", price: 30 },
+          ],
+          metadata: { shared: true },
+        }),
+        { strategy: "merge" }
+      );
+    });
+
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "a", price: 10 }),
+      expect.objectContaining({ id: "b", price: 25, name: "Café table" }),
+      expect.objectContaining({ id: "c", price: 30, quantity: 1 }),
+    ]);
+    expect(result.current.metadata).toEqual({ title: "Mine", shared: true });
+  });
+
+  test("appends through addItem", () => {
+    const onItemAdd = jest.fn();
+    const onItemUpdate = jest.fn();
+    const { result } = renderWatchlist({ onItemAdd, onItemUpdate });
+
+    act(() => {
+      result.current.importWatchlist("id,price,quantity\na,10,3\nc,30,", {
+        strategy: "append",
+      });
+    });
+
+    expect(result.current.getItem("a")!.quantity).toBe(5);
+    expect(result.current.getItem("c")!.quantity).toBe(1);
+    expect(onItemAdd).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "c" })
+    );
+    expect(onItemUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "a", quantity: 5 })
+    );
+  });
+
+  test("replaces through setItems", () => {
+    const onSetItems = jest.fn();
+    const { result } = renderWatchlist({ onSetItems });
+
+    act(() => {
+      result.current.importWatchlist('{"items":[{"id":"c","price":30}]}');
+    });
+
+    expect(result.current.items.map(item => item.id)).toEqual(["c"]);
+    expect(onSetItems).toHaveBeenCalledWith([{ id: "c", price: 30 }]);
+  });
+});
@@ -97,7 +97,9 @@ describe("addItem", () => {
 
     const item = { id: "test", price: 1000 };
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
 
     expect(result.current.items).toHaveLength(1);
     expect(result.current.totalItems).toBe(1);
@@ -112,8 +114,12 @@ describe("addItem", () => {
     const item = { id: "test", price: 1000 };
     const item2 = { id: "test", price: 1000 };
 
-    act(() => result.current.addItem(item));
-    act(() => result.current.addItem(item2));
+    act(() => {
+      result.current.addItem(item);
+    });
+    act(() => {
+      result.current.addItem(item2);
+    });
 
     expect(result.current.items).toHaveLength(1);
     expect(result.current.totalItems).toBe(2);
@@ -127,7 +133,9 @@ describe("addItem", () => {
 
     const item = { id: "test", price: 1000 };
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
 
     expect(result.current.items).toHaveLength(1);
     expect(result.current.totalItems).toBe(1);
@@ -143,7 +151,9 @@ describe("addItem", () => {
 
     const item = { id: "test", price: 0 };
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
 
     expect(result.current.items).toHaveLength(1);
     expect(result.current.totalItems).toBe(1);
@@ -165,7 +175,9 @@ describe("addItem", () => {
 
     const item = { id: "test", price: 1000 };
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
 
     expect(called).toBe(true);
   });
@@ -197,7 +209,9 @@ describe("addItem", () => {
 
     const item = { id: "test", price: 1000 };
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
 
     //expect(result.current.WatchlistTotal).toBe(1000);
   });
@@ -243,7 +257,9 @@ describe("updateItem", () => {
       wrapper,
     });
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
 
     expect(called).toBe(true);
   });
@@ -319,7 +335,9 @@ describe("updateItemQuantity", () => {
       wrapper: WatchlistProvider,
     });
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
     act(() => result.current.updateItemQuantity(item.id, 2));
 
     expect(result.current.items).toHaveLength(1);
@@ -335,7 +353,9 @@ describe("updateItemQuantity", () => {
       wrapper: WatchlistProvider,
     });
 
-    act(() => result.current.addItem(item));
+    act(() => {
+      result.current.addItem(item);
+    });
     act(() => result.current.updateItemQuantity(item.id, 1));
 
     expect(result.current.items).toHaveLength(1);
@@ -0,0 +1,231 @@
+import { WatchlistLimits, WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+let now = 1000;
+
+beforeEach(() => {
+  now = 1000;
+  jest.spyOn(Date, "now").mockImplementation(() => now++);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+const renderWatchlist = (limits: WatchlistLimits) => {
+  const onLimitReached = jest.fn();
+
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider {...limits} onLimitReached={onLimitReached}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+  const add = (id: string, quantity = 1, priority?: number) => {
+    let accepted = false;
+
+    act(() => {
+      accepted = result.current.addItem({ id, price: 10, priority }, quantity);
+    });
+
+    return accepted;
+  };
+
+  const ids = () => result.current.items.map(item => item.id);
+
+  return { result, onLimitReached, add, ids };
+};
+
+describe("limits", () => {
+  test("stamps items with the time they were added and updated", () => {
+    const { result, add } = renderWatchlist({});
+
+    add("a");
+    add("b");
+    act(() => result.current.updateItem("a", { name: "Lamp" }));
+
+    const a = result.current.getItem("a")!;
+    const b = result.current.getItem("b")!;
+
+    expect(a.addedAt).toBeLessThan(b.addedAt!);
+    expect(a.updatedAt).toBeGreaterThan(b.updatedAt!);
+  });
+
+  test("rejects items over maxItems by default", () => {
+    const { onLimitReached, add, ids } = renderWatchlist({ maxItems: 2 });
+
+    expect(add("a")).toBe(true);
+    expect(add("b")).toBe(true);
+    expect(add("c")).toBe(false);
+    expect(add("a")).toBe(true);
+
+    expect(ids()).toEqual(["a", "b"]);
+    expect(onLimitReached).toHaveBeenCalledTimes(1);
+    expect(onLimitReached).toHaveBeenCalledWith({
+      limit: "maxItems",
+      policy: "reject",
+      rejected: [expect.objectContaining({ id: "c" })],
+      evicted: [],
+    });
+  });
+
+  test("evicts the oldest-added item", () => {
+    const { onLimitReached, add, ids } = renderWatchlist({
+      maxItems: 2,
+      limitPolicy: "oldest-added",
+    });
+
+    add("a");
+    add("b");
+    add("a");
+
+    expect(add("c")).toBe(true);
+    expect(ids()).toEqual(["b", "c"]);
+    expect(onLimitReached).toHaveBeenCalledWith({
+      limit: "maxItems",
+      policy: "oldest-added",
+      rejected: [],
+      evicted: [expect.objectContaining({ id: "a" })],
+    });
+  });
+
+  test("evicts and adds in one undoable action", () => {
+    const seen: string[] = [];
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        maxItems={2}
+        limitPolicy="oldest-added"
+        middleware={[
+          () => next => action => {
+            seen.push(action.type);
+            next(action);
+          },
+        ]}
+      >
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    ["a", "b", "c"].forEach(id =>
+      act(() => {
+        result.current.addItem({ id, price: 10 });
+      })
+    );
+
+    expect(seen).toEqual(["ADD_ITEM", "ADD_ITEM", "BATCH"]);
+    expect(result.current.items.map(item => item.id)).toEqual(["b", "c"]);
+
+    act(() => result.current.undo());
+
+    expect(result.current.items.map(item => item.id)).toEqual(["a", "b"]);
+  });
+
+  test("evicts the least recently updated item", () => {
+    const { add, ids } = renderWatchlist({
+      maxItems: 2,
+      limitPolicy: "least-recently-updated",
+    });
+
+    add("a");
+    add("b");
+    add("a");
+    add("c");
+
+    expect(ids()).toEqual(["a", "c"]);
+  });
+
+  test("evicts the lowest priority item", () => {
+    const { add, ids } = renderWatchlist({
+      maxItems: 2,
+      limitPolicy: "lowest-priority",
+    });
+
+    add("a", 1, 5);
+    add("b", 1, 1);
+    add("c", 1, 3);
+
+    expect(ids()).toEqual(["a", "c"]);
+  });
+
+  test("rejects quantities over maxQuantityPerItem", () => {
+    const { result, onLimitReached, add } = renderWatchlist({
+      maxQuantityPerItem: 3,
+    });
+
+    expect(add("a", 4)).toBe(false);
+    expect(add("a", 2)).toBe(true);
+    expect(add("a", 2)).toBe(false);
+
+    act(() => result.current.updateItemQuantity("a", 5));
+    act(() => result.current.updateItem("a", { quantity: 9 }));
+
+    expect(result.current.getItem("a")!.quantity).toBe(2);
+    expect(onLimitReached).toHaveBeenCalledTimes(4);
+    expect(onLimitReached).toHaveBeenLastCalledWith({
+      limit: "maxQuantityPerItem",
+      policy: "reject",
+      rejected: [expect.objectContaining({ id: "a", quantity: 9 })],
+      evicted: [],
+    });
+  });
+
+  test("applies the limits to setItems", () => {
+    const { result, onLimitReached, ids } = renderWatchlist({
+      maxItems: 2,
+      maxQuantityPerItem: 5,
+    });
+
+    act(() =>
+      result.current.setItems([
+        { id: "a", price: 10 },
+        { id: "b", price: 10, quantity: 6 },
+        { id: "c", price: 10 },
+        { id: "d", price: 10 },
+      ])
+    );
+
+    expect(ids()).toEqual(["a", "c"]);
+    expect(onLimitReached).toHaveBeenCalledWith(
+      expect.objectContaining({
+        limit: "maxQuantityPerItem",
+        rejected: [expect.objectContaining({ id: "b" })],
+      })
+    );
+    expect(onLimitReached).toHaveBeenCalledWith(
+      expect.objectContaining({
+        limit: "maxItems",
+        rejected: [expect.objectContaining({ id: "d" })],
+      })
+    );
+  });
+
+  test("evicts by policy when setItems brings in too many items", () => {
+    const { result, add, ids } = renderWatchlist({
+      maxItems: 2,
+      limitPolicy: "oldest-added",
+    });
+
+    add("a");
+    add("b");
+
+    act(() =>
+      result.current.setItems([
+        { id: "c", price: 10 },
+        { id: "b", price: 10 },
+        { id: "a", price: 10 },
+      ])
+    );
+
+    expect(ids()).toEqual(["b", "c"]);
+  });
+});
@@ -0,0 +1,137 @@
+import { WatchlistProvider, mergeWatchlists, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const guest = {
+  items: [
+    { id: "a", price: 12, quantity: 1, updatedAt: 300 },
+    { id: "b", price: 20, quantity: 2, updatedAt: 100 },
+    { id: "c", price: 30, quantity: 1, updatedAt: 100 },
+  ],
+  metadata: { currency: "EUR", note: "guest" },
+};
+
+const account = {
+  items: [
+    { id: "b", price: 18, quantity: 1, updatedAt: 200 },
+    { id: "a", price: 10, quantity: 3, updatedAt: 200 },
+  ],
+  metadata: { currency: "USD" },
+};
+
+const summarise = (items: { id: string; price: number; quantity?: number }[]) =>
+  items.map(({ id, price, quantity }) => [id, price, quantity]);
+
+describe("mergeWatchlists", () => {
+  test("prefers the newest item by default", () => {
+    const result = mergeWatchlists(guest, account);
+
+    expect(summarise(result.items)).toEqual([
+      ["b", 18, 1],
+      ["a", 12, 1],
+      ["c", 30, 1],
+    ]);
+    expect(result.added.map(item => item.id)).toEqual(["c"]);
+    expect(result.updated.map(item => item.id)).toEqual(["a"]);
+    expect(result.metadata).toEqual({ currency: "EUR", note: "guest" });
+    expect(result.changedMetadata).toEqual(["currency", "note"]);
+  });
+
+  test("prefers the source or the target", () => {
+    expect(
+      summarise(
+        mergeWatchlists(guest, account, { onConflict: "prefer-source" }).items
+      )
+    ).toEqual([
+      ["b", 20, 2],
+      ["a", 12, 1],
+      ["c", 30, 1],
+    ]);
+
+    const result = mergeWatchlists(guest, account, {
+      onConflict: "prefer-target",
+    });
+
+    expect(summarise(result.items)).toEqual([
+      ["b", 18, 1],
+      ["a", 10, 3],
+      ["c", 30, 1],
+    ]);
+    expect(result.updated).toEqual([]);
+    expect(result.metadata).toEqual({ currency: "USD", note: "guest" });
+    expect(result.changedMetadata).toEqual(["note"]);
+  });
+
+  test("sums quantities", () => {
+    const result = mergeWatchlists(guest, account, {
+      onConflict: "sum-quantities",
+    });
+
+    expect(summarise(result.items)).toEqual([
+      ["b", 18, 3],
+      ["a", 10, 4],
+      ["c", 30, 1],
+    ]);
+  });
+
+  test("uses a custom resolver", () => {
+    const result = mergeWatchlists(guest, account, {
+      onConflict: (source, target) => ({
+        ...target,
+        price: Math.min(source.price, target.price),
+      }),
+    });
+
+    expect(summarise(result.items)).toEqual([
+      ["b", 18, 1],
+      ["a", 10, 3],
+      ["c", 30, 1],
+    ]);
+  });
+});
+
+describe("mergeWatchlist", () => {
+  test("merges into the current list as one undoable step", () => {
+    const onBatch = jest.fn();
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        id="account"
+        defaultItems={account.items}
+        metadata={account.metadata}
+        onBatch={onBatch}
+      >
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    let report: ReturnType<typeof result.current.mergeWatchlist>;
+
+    act(() => {
+      report = result.current.mergeWatchlist(guest, {
+        onConflict: "sum-quantities",
+      });
+    });
+
+    expect(report!.added.map(item => item.id)).toEqual(["c"]);
+    expect(summarise(result.current.items)).toEqual([
+      ["b", 18, 3],
+      ["a", 10, 4],
+      ["c", 30, 1],
+    ]);
+    expect(result.current.totalItems).toBe(8);
+    expect(result.current.metadata).toEqual({ currency: "USD", note: "guest" });
+    expect(onBatch).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.undo());
+
+    expect(summarise(result.current.items)).toEqual(summarise(account.items));
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  WatchlistMiddleware,
+  WatchlistMiddlewareAction,
+  WatchlistProvider,
+  useWatchlist,
+} from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const renderWatchlist = (
+  props: Partial<React.ComponentProps<typeof WatchlistProvider>> = {}
+) => {
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test" {...props}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  return renderHook(() => useWatchlist(), { wrapper });
+};
+
+describe("middleware", () => {
+  test("runs in order around each action", () => {
+    const calls: string[] = [];
+
+    const tag = (name: string): WatchlistMiddleware => () => next => action => {
+      calls.push(`${name}:${action.type}`);
+      next(action);
+      calls.push(`${name}:done`);
+    };
+
+    const { result } = renderWatchlist({ middleware: [tag("a"), tag("b")] });
+
+    act(() => result.current.emptyWatchlist());
+
+    expect(calls).toEqual([
+      "a:EMPTY_WATCHLIST",
+      "b:EMPTY_WATCHLIST",
+      "b:done",
+      "a:done",
+    ]);
+  });
+
+  test("can transform an action", () => {
+    const discount: WatchlistMiddleware = () => next => action =>
+      next(
+        action.type === "ADD_ITEM"
+          ? { ...action, payload: { ...action.payload, price: 5 } }
+          : action
+      );
+
+    const { result } = renderWatchlist({ middleware: [discount] });
+
+    act(() => {
+      result.current.addItem({ id: "a", price: 10 });
+    });
+
+    expect(result.current.getItem("a")!.price).toBe(5);
+  });
+
+  test("can block an action and its callbacks", () => {
+    const onItemAdd = jest.fn();
+    const readOnly: WatchlistMiddleware = () => next => action => {
+      if (action.type !== "ADD_ITEM") next(action);
+    };
+
+    const { result } = renderWatchlist({
+      middleware: [readOnly],
+      onItemAdd,
+    });
+
+    let accepted = true;
+
+    act(() => {
+      accepted = result.current.addItem({ id: "a", price: 10 });
+    });
+
+    expect(accepted).toBe(false);
+    expect(result.current.items).toEqual([]);
+    expect(onItemAdd).not.toHaveBeenCalled();
+  });
+
+  test("can block undo and redo", () => {
+    const seen: WatchlistMiddlewareAction["type"][] = [];
+    const noUndo: WatchlistMiddleware = () => next => action => {
+      seen.push(action.type);
+
+      if (action.type !== "UNDO") next(action);
+    };
+
+    const { result } = renderWatchlist({ middleware: [noUndo] });
+
+    act(() => result.current.setItems([{ id: "a", price: 10 }]));
+    act(() => result.current.undo());
+
+    expect(seen).toEqual(["SET_ITEMS", "UNDO"]);
+    expect(result.current.items.map(item => item.id)).toEqual(["a"]);
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  test("sees the updated state after calling next", () => {
+    const seen: number[] = [];
+    const logger: WatchlistMiddleware = ({ getState }) => next => action => {
+      next(action);
+      seen.push(getState().items.length);
+    };
+
+    const { result } = renderWatchlist({ middleware: [logger] });
+
+    act(() => {
+      result.current.addItem({ id: "a", price: 10 });
+      result.current.addItem({ id: "b", price: 10 });
+    });
+
+    expect(seen).toEqual([1, 2]);
+  });
+
+  test("dispatches follow-up actions through the chain", () => {
+    const seen: WatchlistMiddlewareAction["type"][] = [];
+    const stamp: WatchlistMiddleware = ({ dispatch }) => next => action => {
+      seen.push(action.type);
+      next(action);
+
+      if (action.type === "ADD_ITEM")
+        dispatch({ type: "UPDATE_WATCHLIST_META", payload: { touched: true } });
+    };
+
+    const { result } = renderWatchlist({ middleware: [stamp] });
+
+    act(() => {
+      result.current.addItem({ id: "a", price: 10 });
+    });
+
+    expect(seen).toEqual(["ADD_ITEM", "UPDATE_WATCHLIST_META"]);
+    expect(result.current.metadata).toEqual({ touched: true });
+  });
+});
@@ -0,0 +1,111 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const renderWatchlist = () => {
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test">{children}</WatchlistProvider>
+  );
+
+  const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+  act(() =>
+    result.current.setItems([
+      { id: "a", price: 10 },
+      { id: "b", price: 10 },
+      { id: "c", price: 10 },
+      { id: "d", price: 10 },
+    ])
+  );
+
+  const ids = () => result.current.items.map(item => item.id);
+
+  return { result, ids };
+};
+
+describe("ordering", () => {
+  test("moves an item to a new index", () => {
+    const { result, ids } = renderWatchlist();
+
+    act(() => result.current.moveItem("a", 2));
+
+    expect(ids()).toEqual(["b", "c", "a", "d"]);
+
+    act(() => result.current.moveItem("d", -1));
+    act(() => result.current.moveItem("b", 10));
+
+    expect(ids()).toEqual(["d", "c", "a", "b"]);
+  });
+
+  test("keeps pinned items first", () => {
+    const { result, ids } = renderWatchlist();
+
+    act(() => result.current.pinItem("c"));
+
+    expect(ids()).toEqual(["c", "a", "b", "d"]);
+    expect(result.current.getItem("c")!.pinned).toBe(true);
+
+    act(() => result.current.moveItem("d", 0));
+    act(() => {
+      result.current.addItem({ id: "e", price: 10, pinned: true });
+    });
+
+    expect(ids()).toEqual(["c", "e", "d", "a", "b"]);
+
+    act(() => result.current.unpinItem("c"));
+
+    expect(ids()).toEqual(["e", "c", "d", "a", "b"]);
+  });
+
+  test("stores a priority", () => {
+    const { result } = renderWatchlist();
+
+    act(() => result.current.setItemPriority("b", 3));
+
+    expect(result.current.getItem("b")!.priority).toBe(3);
+  });
+
+  test("keeps the order, pins and priorities through setItems", () => {
+    const { result, ids } = renderWatchlist();
+
+    act(() => result.current.moveItem("d", 1));
+    act(() => result.current.pinItem("b"));
+    act(() => result.current.setItemPriority("a", 2));
+
+    act(() =>
+      result.current.setItems([
+        { id: "e", price: 10 },
+        { id: "a", price: 12 },
+        { id: "b", price: 12 },
+        { id: "d", price: 12 },
+      ])
+    );
+
+    expect(ids()).toEqual(["b", "a", "d", "e"]);
+    expect(result.current.getItem("a")!.priority).toBe(2);
+  });
+
+  test("persists the order", () => {
+    const { result } = renderWatchlist();
+
+    act(() => result.current.moveItem("c", 0));
+    act(() => result.current.pinItem("d"));
+
+    const saved = JSON.parse(
+      window.localStorage.getItem("react-use-watchlist-test")!
+    );
+
+    expect(saved.items.map((item: { id: string }) => item.id)).toEqual([
+      "d",
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+});
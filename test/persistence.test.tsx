@@ -0,0 +1,126 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const key = "react-use-watchlist-test";
+
+describe("persisted schema", () => {
+  test("writes the version into the persisted payload", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" version={3}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    renderHook(() => useWatchlist(), { wrapper });
+
+    expect(JSON.parse(window.localStorage.getItem(key)!).version).toBe(3);
+  });
+
+  test("migrates old snapshots step by step", () => {
+    window.localStorage.setItem(
+      key,
+      JSON.stringify({
+        id: "test",
+        items: [{ id: "test", cost: 1000, quantity: 1 }],
+        isEmpty: false,
+        totalItems: 1,
+        totalUniqueItems: 1,
+      })
+    );
+
+    const migrations = {
+      2: (state: any) => ({
+        ...state,
+        items: state.items.map(({ cost, ...item }: any) => ({
+          ...item,
+          price: cost,
+        })),
+      }),
+      3: (state: any) => ({ ...state, metadata: { migrated: true } }),
+    };
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" version={3} migrations={migrations}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.current.items).toContainEqual(
+      expect.objectContaining({ id: "test", price: 1000 })
+    );
+    expect(result.current.metadata).toEqual({ migrated: true });
+    expect(JSON.parse(window.localStorage.getItem(key)!).version).toBe(3);
+  });
+
+  test("falls back to defaultItems for malformed data", () => {
+    window.localStorage.setItem(key, "{not json");
+
+    const onCorruptState = jest.fn();
+    const defaultItems = [{ id: "test", price: 1000 }];
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        id="test"
+        defaultItems={defaultItems}
+        onCorruptState={onCorruptState}
+      >
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.current.items).toEqual(defaultItems);
+    expect(onCorruptState).toHaveBeenCalledTimes(1);
+    expect(onCorruptState).toHaveBeenCalledWith(expect.any(Error), "{not json");
+  });
+
+  test("falls back when a migration is missing", () => {
+    window.localStorage.setItem(
+      key,
+      JSON.stringify({ id: "test", items: [], version: 1 })
+    );
+
+    const onCorruptState = jest.fn();
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" version={2} onCorruptState={onCorruptState}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.current.items).toEqual([]);
+    expect(onCorruptState).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects items with the wrong shape", () => {
+    window.localStorage.setItem(
+      key,
+      JSON.stringify({ id: "test", items: [{ id: 1, price: "free" }] })
+    );
+
+    const onCorruptState = jest.fn();
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" onCorruptState={onCorruptState}>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.current.items).toEqual([]);
+    expect(onCorruptState).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,142 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+let now = 1000;
+
+beforeEach(() => {
+  now = 1000;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  window.localStorage.clear();
+});
+
+describe("price history", () => {
+  test("records the price an item was added at", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    expect(result.current.getItem("test")).toEqual(
+      expect.objectContaining({
+        priceHistory: [{ price: 1000, at: 1000 }],
+        priceAtAdd: 1000,
+        lowestPrice: 1000,
+        priceDelta: 0,
+      })
+    );
+  });
+
+  test("keeps earlier prices when updateItem changes the price", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    now = 2000;
+    act(() => result.current.updateItem("test", { price: 800 }));
+
+    now = 3000;
+    act(() => result.current.updateItem("test", { price: 1200 }));
+
+    expect(result.current.getItem("test")).toEqual(
+      expect.objectContaining({
+        priceHistory: [
+          { price: 1000, at: 1000 },
+          { price: 800, at: 2000 },
+          { price: 1200, at: 3000 },
+        ],
+        priceAtAdd: 1000,
+        lowestPrice: 800,
+        priceDelta: 200,
+      })
+    );
+  });
+
+  test("keeps history when setItems brings in a new price", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    now = 2000;
+    act(() => result.current.setItems([{ id: "test", price: 900 }]));
+
+    expect(result.current.getItem("test")!.priceHistory).toHaveLength(2);
+    expect(result.current.getItem("test")!.priceDelta).toBe(-100);
+  });
+
+  test("does not record unchanged prices", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => result.current.updateItemQuantity("test", 3));
+
+    expect(result.current.getItem("test")!.priceHistory).toHaveLength(1);
+  });
+
+  test("bounds the history", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 0 });
+    });
+
+    for (let price = 1; price <= 30; price++)
+      act(() => result.current.updateItem("test", { price }));
+
+    expect(result.current.getItem("test")!.priceHistory).toHaveLength(20);
+    expect(result.current.getItem("test")!.priceAtAdd).toBe(0);
+    expect(result.current.getItem("test")!.lowestPrice).toBe(0);
+  });
+
+  test("triggers onPriceChange with the previous and next price", () => {
+    const onPriceChange = jest.fn();
+
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider
+        defaultItems={[{ id: "test", price: 1000, quantity: 1 }]}
+        onPriceChange={onPriceChange}
+      >
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => result.current.updateItem("test", { quantity: 2 }));
+
+    expect(onPriceChange).not.toHaveBeenCalled();
+
+    act(() => result.current.updateItem("test", { price: 750 }));
+
+    expect(onPriceChange).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "test", price: 750 }),
+      1000,
+      750
+    );
+  });
+});
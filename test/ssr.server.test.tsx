@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import { WatchlistProvider, useWatchlist } from "../src";
+import React from "react";
+import { renderToString } from "react-dom/server";
+
+const serverState = JSON.stringify({
+  id: "test",
+  items: [{ id: "server", price: 1000, quantity: 2 }],
+  isEmpty: false,
+  totalItems: 2,
+  totalUniqueItems: 1,
+  metadata: { source: "server" },
+});
+
+const Count = () => {
+  const { id, totalItems, metadata } = useWatchlist();
+
+  return (
+    <span id={id}>
+      {totalItems} from {metadata!.source}
+    </span>
+  );
+};
+
+describe("server rendering", () => {
+  test("renders markup from the server state", () => {
+    const html = renderToString(
+      <WatchlistProvider initialState={serverState}>
+        <Count />
+      </WatchlistProvider>
+    );
+
+    expect(html).toBe('<span id="test">2<!-- --> from <!-- -->server</span>');
+  });
+
+  test("renders defaults without a window", () => {
+    const html = renderToString(
+      <WatchlistProvider id="test" ssr metadata={{ source: "defaults" }}>
+        <Count />
+      </WatchlistProvider>
+    );
+
+    expect(html).toContain("0<!-- --> from <!-- -->defaults");
+  });
+});
@@ -0,0 +1,114 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const key = "react-use-watchlist-test";
+
+const serverState = JSON.stringify({
+  id: "test",
+  items: [{ id: "server", price: 1000, quantity: 2 }],
+  isEmpty: false,
+  totalItems: 2,
+  totalUniqueItems: 1,
+  metadata: { source: "server" },
+});
+
+const storedItem = { id: "stored", price: 500, quantity: 1 };
+
+const wrapper: FC<Props> = ({ children }) => (
+  <WatchlistProvider id="test" initialState={serverState}>
+    {children}
+  </WatchlistProvider>
+);
+
+describe("server rendering", () => {
+  test("keeps a generated id stable across renders", () => {
+    const { result, rerender } = renderHook(() => useWatchlist(), {
+      wrapper: WatchlistProvider,
+    });
+
+    const { id } = result.current;
+
+    rerender();
+
+    expect(result.current.id).toBe(id);
+  });
+
+  test("takes the id from the server state", () => {
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: ({ children }) => (
+        <WatchlistProvider initialState={serverState}>
+          {children}
+        </WatchlistProvider>
+      ),
+    });
+
+    expect(result.current.id).toBe("test");
+  });
+
+  test("reads storage after the first render", () => {
+    window.localStorage.setItem(
+      key,
+      JSON.stringify({ id: "test", items: [storedItem], version: 1 })
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.all[0]).toEqual(
+      expect.objectContaining({
+        isHydrated: false,
+        items: [expect.objectContaining({ id: "server" })],
+      })
+    );
+    expect(result.current.isHydrated).toBe(true);
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "stored" }),
+    ]);
+  });
+
+  test("keeps the server state when storage is empty", () => {
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    expect(result.current.isHydrated).toBe(true);
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "server" }),
+    ]);
+    expect(JSON.parse(window.localStorage.getItem(key)!).items).toEqual([
+      expect.objectContaining({ id: "server" }),
+    ]);
+  });
+
+  test("falls back to defaultItems when the server state is unreadable", () => {
+    const onCorruptState = jest.fn();
+    const newer = JSON.stringify({ ...JSON.parse(serverState), version: 2 });
+
+    ["{bad", newer].forEach(initialState => {
+      const { result } = renderHook(() => useWatchlist(), {
+        wrapper: ({ children }) => (
+          <WatchlistProvider
+            defaultItems={[storedItem]}
+            initialState={initialState}
+            onCorruptState={onCorruptState}
+          >
+            {children}
+          </WatchlistProvider>
+        ),
+      });
+
+      expect(result.current.items).toEqual([
+        expect.objectContaining({ id: "stored" }),
+      ]);
+    });
+
+    expect(onCorruptState.mock.calls).toEqual([
+      [expect.any(Error), "{bad"],
+      [expect.any(Error), newer],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const renderWatchlist = () => {
+  const onItemRemove = jest.fn();
+
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider id="test" onItemRemove={onItemRemove}>
+      {children}
+    </WatchlistProvider>
+  );
+
+  const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+  act(() =>
+    result.current.setItems([
+      { id: "a", price: 10, tags: ["gift"] },
+      { id: "b", price: 10 },
+      { id: "c", price: 10, tags: ["gift", "maybe"] },
+    ])
+  );
+
+  return { result, onItemRemove };
+};
+
+describe("tags", () => {
+  test("adds and removes tags", () => {
+    const { result } = renderWatchlist();
+
+    act(() => result.current.addTag("b", " birthday "));
+    act(() => result.current.addTag("b", "birthday"));
+    act(() => result.current.removeTag("a", "gift"));
+
+    expect(result.current.getItem("b")!.tags).toEqual(["birthday"]);
+    expect(result.current.getItem("a")!.tags).toEqual([]);
+  });
+
+  test("summarises tags with their counts", () => {
+    const { result } = renderWatchlist();
+
+    expect(result.current.tags).toEqual([
+      { tag: "gift", count: 2 },
+      { tag: "maybe", count: 1 },
+    ]);
+
+    act(() => result.current.addTag("b", "birthday"));
+
+    expect(result.current.tags).toEqual([
+      { tag: "birthday", count: 1 },
+      { tag: "gift", count: 2 },
+      { tag: "maybe", count: 1 },
+    ]);
+  });
+
+  test("renames a tag on every item", () => {
+    const { result } = renderWatchlist();
+
+    act(() => result.current.addTag("a", "present"));
+    act(() => result.current.renameTag("gift", "present"));
+
+    expect(result.current.getItem("a")!.tags).toEqual(["present"]);
+    expect(result.current.getItem("c")!.tags).toEqual(["maybe", "present"]);
+    expect(result.current.tags).toEqual([
+      { tag: "maybe", count: 1 },
+      { tag: "present", count: 2 },
+    ]);
+  });
+
+  test("finds and removes items by tag", () => {
+    const { result, onItemRemove } = renderWatchlist();
+
+    expect(result.current.getItemsByTag("gift").map(item => item.id)).toEqual([
+      "a",
+      "c",
+    ]);
+
+    act(() => result.current.removeItemsByTag("gift"));
+
+    expect(result.current.items.map(item => item.id)).toEqual(["b"]);
+    expect(onItemRemove.mock.calls).toEqual([["a"], ["c"]]);
+
+    act(() => result.current.undo());
+
+    expect(result.current.items).toHaveLength(3);
+  });
+
+  test("counts only well-formed tags", () => {
+    window.localStorage.setItem(
+      "react-use-watchlist-test",
+      JSON.stringify({
+        id: "test",
+        items: [
+          { id: "a", price: 10, quantity: 1, tags: "gift" },
+          { id: "b", price: 10, quantity: 1, tags: ["gift", 3] },
+        ],
+      })
+    );
+
+    const { result } = renderHook(() => useWatchlist(), {
+      wrapper: ({ children }) => (
+        <WatchlistProvider id="test">{children}</WatchlistProvider>
+      ),
+    });
+
+    act(() => result.current.addTag("a", "maybe"));
+
+    expect(result.current.getItemsByTag("gift").map(item => item.id)).toEqual([
+      "b",
+    ]);
+    expect(result.current.tags).toEqual([
+      { tag: "gift", count: 1 },
+      { tag: "maybe", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const key = "react-use-watchlist-test";
+
+const writeFromAnotherTab = (value: object) => {
+  const newValue = JSON.stringify(value);
+
+  window.localStorage.setItem(key, newValue);
+  window.dispatchEvent(
+    new StorageEvent("storage", {
+      key,
+      newValue,
+      storageArea: window.localStorage,
+    })
+  );
+};
+
+describe("sync", () => {
+  test("re-hydrates when another tab changes the same key", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" sync>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    const remote = JSON.parse(window.localStorage.getItem(key)!);
+
+    act(() =>
+      writeFromAnotherTab({
+        ...remote,
+        items: [...remote.items, { id: "test2", price: 2000, quantity: 1 }],
+        totalItems: 2,
+        totalUniqueItems: 2,
+      })
+    );
+
+    expect(result.current.items).toHaveLength(2);
+    expect(result.current.totalItems).toBe(2);
+    expect(result.current.inWatchlist("test2")).toBe(true);
+  });
+
+  test("settles on the value currently stored", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test" sync>
+        {children}
+      </WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    const latest = JSON.parse(window.localStorage.getItem(key)!);
+
+    act(() => {
+      window.localStorage.setItem(
+        key,
+        JSON.stringify({ ...latest, metadata: { tab: "latest" } })
+      );
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key,
+          newValue: JSON.stringify({ ...latest, metadata: { tab: "stale" } }),
+          storageArea: window.localStorage,
+        })
+      );
+    });
+
+    expect(result.current.metadata).toEqual({ tab: "latest" });
+  });
+
+  test("ignores other tabs unless enabled", () => {
+    const wrapper: FC<Props> = ({ children }) => (
+      <WatchlistProvider id="test">{children}</WatchlistProvider>
+    );
+
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    const remote = JSON.parse(window.localStorage.getItem(key)!);
+
+    act(() =>
+      writeFromAnotherTab({
+        ...remote,
+        items: [{ id: "test", price: 1000, quantity: 1 }],
+      })
+    );
+
+    expect(result.current.items).toHaveLength(0);
+  });
+});
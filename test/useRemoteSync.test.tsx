@@ -0,0 +1,201 @@
+import {
+  Actions,
+  Item,
+  WatchlistProvider,
+  WatchlistRemote,
+  useWatchlist,
+} from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const key = "react-use-watchlist-test";
+
+const createServer = (items: Item[] = []) => {
+  const server = {
+    items,
+    online: true,
+    pushed: [] as Actions[],
+    rejects: (_action: Actions) => false,
+  };
+
+  const remote: WatchlistRemote = {
+    pull: async () => {
+      if (!server.online) throw new Error("offline");
+
+      return { items: server.items };
+    },
+    push: async (action, state) => {
+      if (!server.online) throw new Error("offline");
+      if (server.rejects(action)) return false;
+
+      server.pushed.push(action);
+      server.items = state.items;
+
+      return true;
+    },
+  };
+
+  return { server, remote };
+};
+
+const createWrapper = (
+  remote: WatchlistRemote,
+  onRemoteReject?: (action: Actions) => void
+): FC<Props> => ({ children }) => (
+  <WatchlistProvider
+    id="test"
+    remote={remote}
+    onRemoteReject={onRemoteReject}
+    retryDelay={5}
+  >
+    {children}
+  </WatchlistProvider>
+);
+
+describe("remote", () => {
+  test("pulls the remote watchlist on mount", async () => {
+    const { remote } = createServer([{ id: "test", price: 1000 }]);
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote),
+    });
+
+    await waitFor(() => result.current.totalItems === 1);
+
+    expect(result.current.items).toContainEqual(
+      expect.objectContaining({ id: "test", quantity: 1, itemTotal: 1000 })
+    );
+  });
+
+  test("applies changes optimistically and pushes them", async () => {
+    const { server, remote } = createServer();
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote),
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    expect(result.current.inWatchlist("test")).toBe(true);
+    expect(result.current.pendingChanges).toBe(1);
+
+    await waitFor(() => result.current.pendingChanges === 0);
+
+    expect(server.pushed).toEqual([
+      { type: "ADD_ITEM", payload: { id: "test", price: 1000, quantity: 1 } },
+    ]);
+  });
+
+  test("pushes the state an undo leaves behind", async () => {
+    const { server, remote } = createServer();
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote),
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+    act(() => result.current.undo());
+
+    await waitFor(() => result.current.pendingChanges === 0);
+
+    expect(server.pushed.map(action => action.type)).toEqual([
+      "ADD_ITEM",
+      "HYDRATE_WATCHLIST",
+    ]);
+    expect(server.items).toEqual([]);
+  });
+
+  test("keeps a persisted outbox while offline and retries", async () => {
+    const { server, remote } = createServer();
+
+    server.online = false;
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote),
+    });
+
+    act(() => {
+      result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    expect(JSON.parse(window.localStorage.getItem(key)!).outbox).toHaveLength(
+      1
+    );
+
+    server.online = true;
+
+    await waitFor(() => result.current.pendingChanges === 0);
+
+    expect(server.items).toContainEqual(
+      expect.objectContaining({ id: "test" })
+    );
+    expect(JSON.parse(window.localStorage.getItem(key)!).outbox).toEqual([]);
+  });
+
+  test("pushes an outbox left over from a previous session", async () => {
+    const { server, remote } = createServer();
+
+    server.online = false;
+
+    const first = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote),
+    });
+
+    act(() => {
+      first.result.current.addItem({ id: "test", price: 1000 });
+    });
+
+    first.unmount();
+
+    server.online = true;
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote),
+    });
+
+    expect(result.current.pendingChanges).toBe(1);
+
+    await waitFor(() => result.current.pendingChanges === 0);
+
+    expect(result.current.inWatchlist("test")).toBe(true);
+    expect(server.pushed).toHaveLength(1);
+  });
+
+  test("rolls back a change the server rejects", async () => {
+    const { server, remote } = createServer([{ id: "test", price: 1000 }]);
+    const onRemoteReject = jest.fn();
+
+    server.rejects = action =>
+      action.type === "ADD_ITEM" && action.payload.id === "banned";
+
+    const { result, waitFor } = renderHook(() => useWatchlist(), {
+      wrapper: createWrapper(remote, onRemoteReject),
+    });
+
+    await waitFor(() => result.current.totalItems === 1);
+
+    act(() => {
+      result.current.addItem({ id: "banned", price: 1000 });
+    });
+
+    expect(result.current.inWatchlist("banned")).toBe(true);
+
+    await waitFor(() => !result.current.inWatchlist("banned"));
+
+    expect(onRemoteReject).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "ADD_ITEM" })
+    );
+    expect(result.current.inWatchlist("test")).toBe(true);
+    expect(result.current.pendingChanges).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  WatchlistProvider,
+  WatchlistProviderState,
+  useWatchlist,
+  useWatchlistSelector,
+} from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const wrapper: FC<Props> = ({ children }) => (
+  <WatchlistProvider
+    defaultItems={[
+      { id: "a", price: 10, quantity: 1 },
+      { id: "b", price: 20, quantity: 1 },
+    ]}
+  >
+    {children}
+  </WatchlistProvider>
+);
+
+// Mutations come from a sibling component, so the hook under test only
+// re-renders through its own subscription.
+const renderCounted = <T,>(useSelected: () => T) => {
+  const counter = { renders: 0 };
+  let watchlist = {} as WatchlistProviderState;
+
+  const Actions = () => {
+    watchlist = useWatchlist();
+
+    return null;
+  };
+
+  const { result } = renderHook(
+    () => {
+      counter.renders++;
+
+      return useSelected();
+    },
+    {
+      wrapper: ({ children }) =>
+        wrapper({
+          children: (
+            <>
+              <Actions />
+              {children}
+            </>
+          ),
+        }),
+    }
+  );
+
+  return { result, counter, actions: () => watchlist };
+};
+
+describe("useWatchlistSelector", () => {
+  test("throws outside a WatchlistProvider", () => {
+    const { result } = renderHook(() =>
+      useWatchlistSelector(state => state.totalItems)
+    );
+
+    expect(result.error?.message).toBe(
+      "Expected to be wrapped in a WatchlistProvider"
+    );
+  });
+
+  test("returns the selected value and follows updates", () => {
+    const { result } = renderHook(
+      () => ({
+        total: useWatchlistSelector(state => state.items.length),
+        watchlist: useWatchlist(),
+      }),
+      { wrapper }
+    );
+
+    expect(result.current.total).toBe(2);
+
+    act(() => {
+      result.current.watchlist.addItem({ id: "c", price: 30 });
+    });
+
+    expect(result.current.total).toBe(3);
+  });
+
+  test("only re-renders when the selected value changes", () => {
+    const { result, counter, actions } = renderCounted(() =>
+      useWatchlistSelector(state => state.getItem("a")?.quantity)
+    );
+
+    expect(counter.renders).toBe(1);
+
+    act(() => actions().updateItemQuantity("b", 4));
+
+    expect(counter.renders).toBe(1);
+
+    act(() => actions().updateItemQuantity("a", 2));
+
+    expect(counter.renders).toBe(2);
+    expect(result.current).toBe(2);
+  });
+
+  test("accepts a custom equality function", () => {
+    const { result, counter, actions } = renderCounted(() =>
+      useWatchlistSelector(
+        state => state.items.map(item => item.id),
+        (a, b) => a.join() === b.join()
+      )
+    );
+
+    act(() => actions().updateItemQuantity("a", 5));
+
+    expect(counter.renders).toBe(1);
+
+    act(() => actions().removeItem("a"));
+
+    expect(counter.renders).toBe(2);
+    expect(result.current).toEqual(["b"]);
+  });
+
+  test("keeps action identities stable across updates", () => {
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    const { addItem, removeItem, getItem, undo } = result.current;
+
+    act(() => {
+      result.current.addItem({ id: "c", price: 30 });
+    });
+
+    expect(result.current.addItem).toBe(addItem);
+    expect(result.current.removeItem).toBe(removeItem);
+    expect(result.current.getItem).toBe(getItem);
+    expect(result.current.undo).toBe(undo);
+    expect(getItem("c")).toEqual(expect.objectContaining({ price: 30 }));
+  });
+});
@@ -0,0 +1,138 @@
+import { WatchlistProvider, useWatchlist, useWatchlistView } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const items = [
+  { id: "a", name: "Desk lamp", category: "home", price: 40, quantity: 1 },
+  { id: "b", name: "Headphones", category: "audio", price: 200, quantity: 2 },
+  { id: "c", name: "Floor lamp", category: "home", price: 40, quantity: 3 },
+  { id: "d", name: "Speaker", category: "audio", price: 120, quantity: 1 },
+];
+
+const wrapper: FC<Props> = ({ children }) => (
+  <WatchlistProvider defaultItems={items}>{children}</WatchlistProvider>
+);
+
+const ids = (view: { items: { id: string }[] }) =>
+  view.items.map(item => item.id);
+
+describe("useWatchlistView", () => {
+  test("returns items unchanged without options", () => {
+    const { result } = renderHook(() => useWatchlistView(), { wrapper });
+
+    expect(ids(result.current)).toEqual(["a", "b", "c", "d"]);
+    expect(result.current.totalItems).toBe(7);
+    expect(result.current.groups).toEqual([]);
+  });
+
+  test("sorts by several keys and keeps ties stable", () => {
+    const { result } = renderHook(
+      () =>
+        useWatchlistView({
+          sortBy: ["price", "name"],
+          direction: ["asc", "desc"],
+        }),
+      { wrapper }
+    );
+
+    expect(ids(result.current)).toEqual(["c", "a", "d", "b"]);
+
+    const { result: stable } = renderHook(
+      () => useWatchlistView({ sortBy: "price" }),
+      { wrapper }
+    );
+
+    expect(ids(stable.current)).toEqual(["a", "c", "d", "b"]);
+  });
+
+  test("sorts descending", () => {
+    const { result } = renderHook(
+      () => useWatchlistView({ sortBy: "price", direction: "desc" }),
+      { wrapper }
+    );
+
+    expect(ids(result.current)).toEqual(["b", "d", "a", "c"]);
+  });
+
+  test("filters and searches arbitrary fields", () => {
+    const filter = (item: { price: number }) => item.price < 150;
+
+    const { result } = renderHook(
+      () => useWatchlistView({ filter, search: "LAMP" }),
+      { wrapper }
+    );
+
+    expect(ids(result.current)).toEqual(["a", "c"]);
+
+    const { result: byField } = renderHook(
+      () => useWatchlistView({ search: "audio", searchFields: ["name"] }),
+      { wrapper }
+    );
+
+    expect(byField.current.items).toEqual([]);
+  });
+
+  test("searches string fields unless told otherwise", () => {
+    const { result } = renderHook(
+      () => ({
+        watchlist: useWatchlist(),
+        byDefault: useWatchlistView({ search: "1" }),
+        byPrice: useWatchlistView({ search: "12", searchFields: ["price"] }),
+      }),
+      { wrapper }
+    );
+
+    act(() => result.current.watchlist.updateItem("a", { price: 41 }));
+
+    expect(result.current.watchlist.getItem("a")!.addedAt).toBeDefined();
+    expect(ids(result.current.byDefault)).toEqual([]);
+    expect(ids(result.current.byPrice)).toEqual(["d"]);
+  });
+
+  test("groups items with per-group totals", () => {
+    const { result } = renderHook(
+      () => useWatchlistView({ groupBy: "category" }),
+      { wrapper }
+    );
+
+    expect(result.current.groups).toEqual([
+      expect.objectContaining({
+        key: "home",
+        totalItems: 4,
+        totalUniqueItems: 2,
+      }),
+      expect.objectContaining({
+        key: "audio",
+        totalItems: 3,
+        totalUniqueItems: 2,
+      }),
+    ]);
+  });
+
+  test("memoizes the view until items change", () => {
+    const { result, rerender } = renderHook(
+      () => ({
+        view: useWatchlistView({ sortBy: ["price"] }),
+        watchlist: useWatchlist(),
+      }),
+      { wrapper }
+    );
+
+    const first = result.current.view;
+
+    rerender();
+
+    expect(result.current.view).toBe(first);
+
+    act(() => result.current.watchlist.removeItem("a"));
+
+    expect(result.current.view).not.toBe(first);
+    expect(ids(result.current.view)).toEqual(["c", "d", "b"]);
+  });
+});
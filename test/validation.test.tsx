@@ -0,0 +1,187 @@
+import { Item, WatchlistError, WatchlistProvider, useWatchlist } from "../src";
+import React, { FC, HTMLAttributes, ReactChild } from "react";
+import { act, renderHook } from "@testing-library/react-hooks";
+
+export interface Props extends HTMLAttributes<HTMLDivElement> {
+  children?: ReactChild;
+}
+
+afterEach(() => window.localStorage.clear());
+
+const renderWatchlist = (
+  props: Partial<React.ComponentProps<typeof WatchlistProvider>> = {}
+) => {
+  const wrapper: FC<Props> = ({ children }) => (
+    <WatchlistProvider
+      id="test"
+      defaultItems={[{ id: "lamp", price: 100, quantity: 1 }]}
+      {...props}
+    >
+      {children}
+    </WatchlistProvider>
+  );
+
+  return renderHook(() => useWatchlist(), { wrapper });
+};
+
+const catchError = (action: () => void) => {
+  try {
+    action();
+  } catch (error) {
+    return error;
+  }
+
+  return undefined;
+};
+
+// Non-numeric values can still reach the actions from untyped callers.
+const invalidPrice = ({ id: "sofa", price: "cheap" } as unknown) as Item;
+
+describe("validation", () => {
+  test("throws errors with stable codes", () => {
+    const { result } = renderWatchlist();
+
+    const error = catchError(() => result.current.addItem(invalidPrice));
+
+    expect(error).toBeInstanceOf(WatchlistError);
+    expect(error).toMatchObject({ code: "INVALID_PRICE", item: invalidPrice });
+
+    expect(
+      catchError(() => result.current.addItem({ id: "", price: 1 }))
+    ).toMatchObject({ code: "MISSING_ID" });
+    expect(
+      catchError(() => result.current.addItem({ id: "sofa", price: 1 }, -2))
+    ).toMatchObject({ code: "INVALID_QUANTITY" });
+    expect(
+      catchError(() => result.current.updateItemQuantity("lamp", NaN))
+    ).toMatchObject({ code: "INVALID_QUANTITY" });
+    expect(
+      catchError(() => result.current.updateItemQuantity("sofa", 2))
+    ).toMatchObject({
+      code: "ITEM_NOT_FOUND",
+      message: "No such item to update",
+    });
+    expect(
+      catchError(() => result.current.setTargetPrice("lamp", NaN))
+    ).toMatchObject({ code: "INVALID_TARGET_PRICE" });
+    expect(result.current.items).toHaveLength(1);
+  });
+
+  test("runs validateItem on add, update and setItems", () => {
+    const validateItem = jest.fn((item: Item) =>
+      item.price > 0 ? true : "Price must be positive"
+    );
+    const { result } = renderWatchlist({ validateItem });
+
+    expect(
+      catchError(() => result.current.addItem({ id: "sofa", price: 0 }))
+    ).toMatchObject({
+      code: "INVALID_ITEM",
+      message: "Price must be positive",
+    });
+    expect(
+      catchError(() => result.current.updateItem("lamp", { price: -1 }))
+    ).toMatchObject({ code: "INVALID_ITEM" });
+    expect(
+      catchError(() =>
+        result.current.setItems([
+          { id: "sofa", price: 10 },
+          { id: "rug", price: 0 },
+        ])
+      )
+    ).toMatchObject({ code: "INVALID_ITEM", item: { id: "rug" } });
+
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "lamp", price: 100 }),
+    ]);
+    expect(validateItem).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "lamp", price: -1, quantity: 1 })
+    );
+
+    act(() => {
+      result.current.addItem({ id: "lamp", price: 100 }, 2);
+    });
+
+    expect(result.current.getItem("lamp")!.quantity).toBe(3);
+  });
+
+  test("hands errors to onError instead of throwing", () => {
+    const onError = jest.fn();
+    const { result } = renderWatchlist({ onError });
+
+    let accepted = true;
+
+    act(() => {
+      accepted = result.current.addItem(invalidPrice);
+    });
+    act(() => result.current.updateItemQuantity("sofa", 2));
+
+    expect(accepted).toBe(false);
+    expect(onError.mock.calls.map(([error]) => error.code)).toEqual([
+      "INVALID_PRICE",
+      "ITEM_NOT_FOUND",
+    ]);
+    expect(result.current.items).toHaveLength(1);
+  });
+
+  test("refuses to update a missing item", () => {
+    const onError = jest.fn();
+    const onItemUpdate = jest.fn();
+    const { result } = renderWatchlist({ onError, onItemUpdate });
+
+    act(() => result.current.updateItem("sofa", { price: 10 }));
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "ITEM_NOT_FOUND", item: { id: "sofa" } })
+    );
+    expect(onItemUpdate).not.toHaveBeenCalled();
+    expect(result.current.items.map(item => item.id)).toEqual(["lamp"]);
+  });
+
+  test("checks an action without applying it", () => {
+    const onError = jest.fn();
+    const onItemAdd = jest.fn();
+    const { result } = renderWatchlist({ onError, onItemAdd });
+
+    expect(
+      result.current.checkItem("addItem", { id: "sofa", price: 10 })
+    ).toEqual({
+      ok: true,
+    });
+    expect(
+      result.current.checkItem("addItem", { id: "lamp", price: 100 }, 0)
+    ).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: "INVALID_QUANTITY" }),
+    });
+    expect(result.current.checkItem("addItem", invalidPrice)).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: "INVALID_PRICE" }),
+    });
+    expect(
+      result.current.checkItem("updateItem", "missing", { price: 10 })
+    ).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: "ITEM_NOT_FOUND" }),
+    });
+    expect(result.current.checkItem("setTargetPrice", "lamp", NaN)).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: "INVALID_TARGET_PRICE" }),
+    });
+    expect(
+      result.current.checkItem("batch", () => {
+        result.current.removeItem("lamp");
+        result.current.updateItemQuantity("lamp", 2);
+      })
+    ).toEqual({
+      ok: false,
+      error: expect.objectContaining({ code: "ITEM_NOT_FOUND" }),
+    });
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(onItemAdd).not.toHaveBeenCalled();
+    expect(result.current.items).toEqual([
+      expect.objectContaining({ id: "lamp", quantity: 1 }),
+    ]);
+  });
+});